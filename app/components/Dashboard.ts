@@ -0,0 +1,197 @@
+import { speedToRowsPerSecond } from "../utils/worldUnits";
+
+interface DashboardProps {
+  context: CanvasRenderingContext2D;
+  canvasSize: { width: number; height: number };
+  speed: number; // Speed units, as produced by SpeedProgressionSystem
+  maxSpeed: number;
+  shipPosition: number;
+  nbColumns: number;
+  opacity?: number; // Fades in as the camera moves into the cockpit
+}
+
+interface DashboardConfig {
+  panelHeightRatio: number; // Height of the dashboard as a ratio of canvas height
+  pillarWidthRatio: number; // Width of the windshield pillars at the bottom, as a ratio of canvas width
+  gaugeRadiusRatio: number; // Speed gauge radius as a ratio of panel height
+  colors: {
+    panelTop: string;
+    panelBottom: string;
+    trim: string;
+    gaugeFace: string;
+    gaugeTick: string;
+    needle: string;
+    text: string;
+    laneIdle: string;
+    laneActive: string;
+  };
+}
+
+// Dashboard configuration constants
+const DASHBOARD_CONFIG: DashboardConfig = {
+  panelHeightRatio: 0.2,
+  pillarWidthRatio: 0.06,
+  gaugeRadiusRatio: 0.8,
+  colors: {
+    panelTop: "#1f2937",
+    panelBottom: "#030712",
+    trim: "#3b82f6", // Same blue as the ship's hull
+    gaugeFace: "#111827",
+    gaugeTick: "#9ca3af",
+    needle: "#f97316",
+    text: "#e5e7eb",
+    laneIdle: "#374151",
+    laneActive: "#60a5fa",
+  },
+};
+
+/**
+ * Draws the panel and the windshield pillars framing the view
+ */
+const drawFrame = (context: CanvasRenderingContext2D, width: number, height: number, panelTop: number): void => {
+  const pillarWidth = width * DASHBOARD_CONFIG.pillarWidthRatio;
+  const { colors } = DASHBOARD_CONFIG;
+
+  // Pillars lean in towards the top of the windshield
+  context.fillStyle = colors.panelBottom;
+  context.beginPath();
+  context.moveTo(0, 0);
+  context.lineTo(pillarWidth * 0.3, 0);
+  context.lineTo(pillarWidth, panelTop);
+  context.lineTo(0, panelTop);
+  context.closePath();
+  context.moveTo(width, 0);
+  context.lineTo(width - pillarWidth * 0.3, 0);
+  context.lineTo(width - pillarWidth, panelTop);
+  context.lineTo(width, panelTop);
+  context.closePath();
+  context.fill();
+
+  // Panel with a raised middle where the gauge sits
+  const gradient = context.createLinearGradient(0, panelTop, 0, height);
+  gradient.addColorStop(0, colors.panelTop);
+  gradient.addColorStop(1, colors.panelBottom);
+  context.fillStyle = gradient;
+  context.beginPath();
+  context.moveTo(0, panelTop);
+  context.quadraticCurveTo(width / 2, panelTop - (height - panelTop) * 0.5, width, panelTop);
+  context.lineTo(width, height);
+  context.lineTo(0, height);
+  context.closePath();
+  context.fill();
+
+  context.strokeStyle = colors.trim;
+  context.lineWidth = 2;
+  context.beginPath();
+  context.moveTo(0, panelTop);
+  context.quadraticCurveTo(width / 2, panelTop - (height - panelTop) * 0.5, width, panelTop);
+  context.stroke();
+};
+
+/**
+ * Draws the speed gauge: a half dial with a needle and the speed in rows per second
+ */
+const drawSpeedGauge = (
+  context: CanvasRenderingContext2D,
+  centerX: number,
+  centerY: number,
+  radius: number,
+  speedRatio: number,
+  speed: number
+): void => {
+  const { colors } = DASHBOARD_CONFIG;
+
+  context.fillStyle = colors.gaugeFace;
+  context.beginPath();
+  context.arc(centerX, centerY, radius, Math.PI, 0);
+  context.closePath();
+  context.fill();
+
+  // Ticks every tenth of the range
+  context.strokeStyle = colors.gaugeTick;
+  context.lineWidth = 1.5;
+  for (let i = 0; i <= 10; i++) {
+    const angle = Math.PI + (i / 10) * Math.PI;
+    const inner = i % 5 === 0 ? 0.75 : 0.85;
+    context.beginPath();
+    context.moveTo(centerX + Math.cos(angle) * radius * inner, centerY + Math.sin(angle) * radius * inner);
+    context.lineTo(centerX + Math.cos(angle) * radius * 0.95, centerY + Math.sin(angle) * radius * 0.95);
+    context.stroke();
+  }
+
+  const needleAngle = Math.PI + Math.max(0, Math.min(1, speedRatio)) * Math.PI;
+  context.strokeStyle = colors.needle;
+  context.lineWidth = 3;
+  context.lineCap = "round";
+  context.beginPath();
+  context.moveTo(centerX, centerY);
+  context.lineTo(centerX + Math.cos(needleAngle) * radius * 0.9, centerY + Math.sin(needleAngle) * radius * 0.9);
+  context.stroke();
+
+  context.fillStyle = colors.text;
+  context.font = `bold ${Math.round(radius * 0.3)}px monospace`;
+  context.textAlign = "center";
+  context.textBaseline = "top";
+  context.fillText(speedToRowsPerSecond(speed).toFixed(1), centerX, centerY + radius * 0.08);
+};
+
+/**
+ * Draws one light per lane, with the ship's lane lit
+ */
+const drawLaneIndicator = (
+  context: CanvasRenderingContext2D,
+  centerX: number,
+  centerY: number,
+  totalWidth: number,
+  shipPosition: number,
+  nbColumns: number
+): void => {
+  const slotWidth = totalWidth / nbColumns;
+  const currentLane = Math.round(shipPosition);
+
+  for (let lane = 0; lane < nbColumns; lane++) {
+    context.fillStyle = lane === currentLane ? DASHBOARD_CONFIG.colors.laneActive : DASHBOARD_CONFIG.colors.laneIdle;
+    context.fillRect(centerX - totalWidth / 2 + lane * slotWidth + 2, centerY - 4, slotWidth - 4, 8);
+  }
+};
+
+/**
+ * Renders the cockpit dashboard over the view
+ */
+export default function Dashboard({
+  context,
+  canvasSize,
+  speed,
+  maxSpeed,
+  shipPosition,
+  nbColumns,
+  opacity = 1,
+}: DashboardProps) {
+  try {
+    const { width, height } = canvasSize;
+    if (width <= 0 || height <= 0 || nbColumns <= 0 || opacity <= 0) {
+      return null;
+    }
+
+    const panelHeight = height * DASHBOARD_CONFIG.panelHeightRatio;
+    const panelTop = height - panelHeight;
+    const gaugeRadius = panelHeight * DASHBOARD_CONFIG.gaugeRadiusRatio;
+
+    context.save();
+    try {
+      context.globalAlpha = Math.min(1, opacity);
+      drawFrame(context, width, height, panelTop);
+      drawSpeedGauge(context, width / 2, height - panelHeight * 0.1, gaugeRadius, maxSpeed > 0 ? speed / maxSpeed : 0, speed);
+      drawLaneIndicator(context, width * 0.25, panelTop + panelHeight * 0.55, width * 0.2, shipPosition, nbColumns);
+    } catch (renderError) {
+      console.error("Error rendering dashboard:", renderError);
+    } finally {
+      context.restore();
+    }
+
+  } catch (error) {
+    console.error("Dashboard rendering failed:", error);
+  }
+
+  return null;
+}
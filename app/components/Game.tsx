@@ -2,69 +2,186 @@
 
 import React, { useEffect, useRef, useState, useCallback } from "react";
 import Path from "./Path";
+import Obstacles from "./Obstacles";
 import Ship from "./Ship";
 import Track from "./Track";
-import { clearPerspectiveCache } from "../utils/perspective";
-import { PlayerController } from "../utils/PlayerController";
-import { CollisionDetector, CollisionResult } from "../utils/CollisionDetection";
+import Dashboard from "./Dashboard";
+import {
+  createRoadCurve,
+  createRoadElevation,
+  unprojectRoadPoint,
+  updateRoadCurve,
+  updateRoadElevation,
+} from "../utils/perspective";
+import type { RoadCurve, RoadElevation } from "../utils/perspective";
+import type { CollisionResult } from "../utils/CollisionDetection";
 import { ParticleSystem } from "../utils/ParticleSystem";
-import { SpeedProgressionSystem } from "../utils/SpeedProgressionSystem";
+import { RoadProjectionTable } from "../utils/RoadProjectionTable";
+import { Camera, CAMERA_PRESETS, CAMERA_PRESET_NAMES } from "../utils/Camera";
+import type { CameraPresetName } from "../utils/Camera";
+import { CameraEffects } from "../utils/CameraEffects";
+import { GamepadInput } from "../utils/GamepadInput";
+import {
+  ACTION_LABELS,
+  BINDING_SLOTS,
+  DEFAULT_KEY_BINDINGS,
+  INPUT_ACTIONS,
+  InputManager,
+  cloneKeyBindings,
+  getKeyLabel,
+} from "../utils/InputManager";
+import type { InputAction } from "../utils/InputManager";
+import { TouchInput } from "../utils/TouchInput";
+import type { CameraEffectIntensity } from "../utils/CameraEffects";
+import { PHYSICS_MODES } from "../utils/PlayerController";
+import type { PhysicsMode } from "../utils/PlayerController";
+import { SHIP_PROFILES, SHIP_PROFILE_NAMES } from "../utils/shipProfiles";
+import type { ShipProfileName } from "../utils/shipProfiles";
+import { DEFAULT_GAME_SETTINGS, TOUCH_CONTROL_MODES, loadGameSettings, saveGameSettings } from "../utils/gameSettings";
+import type { GameSettings, TouchControlMode } from "../utils/gameSettings";
+import { SPEED_PRESETS } from "../utils/SpeedProgressionSystem";
+import { SeededRandom } from "../utils/SeededRandom";
+import { GameSimulation } from "../utils/GameSimulation";
+import type { GameState, SimulationStepResult } from "../utils/GameSimulation";
+import type { Level } from "../utils/levelFormat";
+import { FixedTimestep } from "../utils/FixedTimestep";
+import { WORLD_UNITS, rowsToPixels, speedToRowsPerSecond } from "../utils/worldUnits";
 
 interface GameProps {
   showShip: boolean;
-}
-
-interface GameState {
-  currentOffsetY: number;
-  currentYLoop: number;
-  shipPosition: number;
-  speed: number;
-  score: number;
-  lives: number;
-  gameStatus: 'playing' | 'paused' | 'gameOver' | 'menu';
-  lastCollision: CollisionResult | null;
-}
-
-interface TileCoordinate {
-  x: number;
-  y: number;
+  seed?: number; // Fixed track seed; a new random seed is used for each run when omitted
+  level?: Level; // Hand-authored course; replaces the endless generator when set
 }
 
 // Game constants - extracted to prevent magic numbers
 const GAME_CONSTANTS = {
-  NB_COLUMNS: 7,
-  SCROLL_SPEED: 240, // pixels per second
-  TILE_SPACING: 0.07, // Reduced further for better visibility depth
+  NB_COLUMNS: WORLD_UNITS.NB_COLUMNS,
+  SCROLL_SPEED: 240, // Speed units (see worldUnits) - about 5.7 rows per second
   MIN_TILES: 100, // Significantly increased for much better forward visibility (5-6 seconds)
   MAX_TILES: 120, // Increased for smoother generation with LOD
   DEFAULT_CANVAS_WIDTH: 1000,
   DEFAULT_CANVAS_HEIGHT: 600,
   TARGET_FPS: 60,
+  SIMULATION_HZ: 120, // Fixed simulation rate, independent of the display refresh rate
   VISIBILITY_DISTANCE: 4000, // Maximum visible distance in pixels
   LOD_NEAR_DISTANCE: 700, // High detail distance
   LOD_FAR_DISTANCE: 2000, // Low detail distance
+  ROAD_LOOKAHEAD_ROWS: 36, // Rows of road bend and height handed to the renderers (covers every camera preset's view)
+  HORIZON_PAN_PER_CURVE: 300, // Background pan in pixels per lane-per-row of change in road direction
+  PERFECT_LANDING_BANNER_TIME: 1, // Seconds the perfect landing banner stays up
 } as const;
 
-const Game: React.FC<GameProps> = ({ showShip }) => {
+// Camera effect settings shown in the pause menu
+const EFFECT_SETTINGS: { effect: keyof CameraEffectIntensity; label: string }[] = [
+  { effect: "shake", label: "Shake" },
+  { effect: "fieldOfViewKick", label: "Boost FOV" },
+  { effect: "roll", label: "Roll" },
+];
+
+const EFFECT_LEVELS = [
+  { label: "Off", value: 0 },
+  { label: "Low", value: 0.5 },
+  { label: "Full", value: 1 },
+];
+
+// How long an early steering press is kept, in milliseconds
+const INPUT_BUFFER_LEVELS = [
+  { label: "Off", value: 0 },
+  { label: "Short", value: 100 },
+  { label: "Normal", value: 200 },
+  { label: "Long", value: 400 },
+];
+
+const PHYSICS_MODE_LABELS: Record<PhysicsMode, string> = {
+  lane: "Lane",
+  momentum: "Momentum",
+};
+
+const TOUCH_CONTROL_LABELS: Record<TouchControlMode, string> = {
+  swipe: "Tap & swipe",
+  lane: "Tap on lane",
+};
+
+interface MeterGaugeProps {
+  label: string;
+  value: number; // 0 to 1
+  colorClass: string; // Tailwind background class of the filled part
+}
+
+// Horizontal gauge for the boost and brake meters
+const MeterGauge: React.FC<MeterGaugeProps> = ({ label, value, colorClass }) => (
+  <div className="flex items-center gap-2 mt-1 text-sm">
+    <span className="w-12">{label}</span>
+    <div className="w-28 h-2.5 bg-gray-700 rounded-full overflow-hidden">
+      <div className={`h-full ${colorClass}`} style={{ width: `${Math.round(Math.max(0, Math.min(1, value)) * 100)}%` }} />
+    </div>
+  </div>
+);
+
+const Game: React.FC<GameProps> = ({ showShip, seed, level }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationFrameRef = useRef<number | null>(null);
   const lastTimeRef = useRef<number>(0);
-  const gameStateRef = useRef<GameState>({
-    currentOffsetY: 0,
-    currentYLoop: 0,
-    shipPosition: Math.floor(GAME_CONSTANTS.NB_COLUMNS / 2),
-    speed: GAME_CONSTANTS.SCROLL_SPEED,
-    score: 0,
-    lives: 3,
-    gameStatus: 'playing',
-    lastCollision: null,
+  const horizonPanRef = useRef<number>(0);
+  const lastRoadPositionRef = useRef<number>(0);
+  // Road shape of the last frame, so pointer steering finds lanes where they were drawn
+  // Rewritten in place every frame, along with the per-row values it is built from
+  const roadShapeRef = useRef<{ curve: RoadCurve; elevation: RoadElevation }>({
+    curve: createRoadCurve([], 0),
+    elevation: createRoadElevation([], 0),
+  });
+  const roadLookaheadRef = useRef<{ curves: number[]; elevations: number[] }>({
+    curves: new Array<number>(GAME_CONSTANTS.ROAD_LOOKAHEAD_ROWS).fill(0),
+    elevations: new Array<number>(GAME_CONSTANTS.ROAD_LOOKAHEAD_ROWS).fill(0),
   });
 
-  // Game controllers
-  const playerControllerRef = useRef<PlayerController>(new PlayerController());
-  const collisionDetectorRef = useRef<CollisionDetector>(new CollisionDetector());
+  // Headless gameplay engine - the component only renders its state
+  const simulationRef = useRef<GameSimulation | null>(null);
+  if (simulationRef.current === null) {
+    simulationRef.current = new GameSimulation(seed ?? SeededRandom.createSeed(), {
+      nbColumns: GAME_CONSTANTS.NB_COLUMNS,
+      baseScrollSpeed: GAME_CONSTANTS.SCROLL_SPEED,
+      minRows: GAME_CONSTANTS.MIN_TILES,
+      level: level ?? null,
+    });
+  }
+  const simulation = simulationRef.current;
+  const nbColumns = simulation.getConfig().nbColumns; // Levels may use fewer lanes than endless mode
+
+  // Single camera shared by every renderer, framing the middle of the track
+  const cameraRef = useRef<Camera | null>(null);
+  if (cameraRef.current === null) {
+    cameraRef.current = new Camera({
+      width: GAME_CONSTANTS.DEFAULT_CANVAS_WIDTH,
+      height: GAME_CONSTANTS.DEFAULT_CANVAS_HEIGHT,
+    });
+    cameraRef.current.lookAt(nbColumns / 2);
+  }
+  const camera = cameraRef.current;
+
+  // Shake, boost field of view kick and lane-change roll layered on the camera
+  const cameraEffectsRef = useRef<CameraEffects>(new CameraEffects());
+  const lateralVelocityRef = useRef<number>(0);
+  const perfectLandingTimeRef = useRef<number>(0); // Seconds the perfect landing banner has left
+  const wasInContactRef = useRef<boolean>(false); // Whether the previous step reported a collision
+  const [showPerfectLanding, setShowPerfectLanding] = useState(false);
+
+  // Keyboard and other devices mapped to actions; the ship reads held actions, the screen handles pressed ones
+  const inputManagerRef = useRef<InputManager>(new InputManager());
+  const [rebinding, setRebinding] = useState<{ action: InputAction; slot: number } | null>(null);
+
+  // Gamepad, polled every frame and reported to the input manager
+  const gamepadRef = useRef<GamepadInput>(new GamepadInput());
+  const [isGamepadConnected, setIsGamepadConnected] = useState(false);
+
+  // Touch lane changes, and whether this device has a touch screen (for the pause button and touch settings)
+  const touchInputRef = useRef<TouchInput>(new TouchInput());
+  const [hasTouchScreen, setHasTouchScreen] = useState(false);
+  const timestepRef = useRef<FixedTimestep>(new FixedTimestep({ stepSize: 1 / GAME_CONSTANTS.SIMULATION_HZ }));
+
+  // Visual-only systems
   const particleSystemRef = useRef<ParticleSystem | null>(null);
-  const speedSystemRef = useRef<SpeedProgressionSystem>(new SpeedProgressionSystem('arcade'));
+  const projectionTableRef = useRef<RoadProjectionTable>(new RoadProjectionTable()); // Road projected once per frame for Track, Path and Ship
 
   // Canvas context state
   const [context, setContext] = useState<CanvasRenderingContext2D | null>(null);
@@ -73,13 +190,123 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
     height: GAME_CONSTANTS.DEFAULT_CANVAS_HEIGHT 
   });
   
-  // Game state
-  const [gameState, setGameState] = useState<GameState>(gameStateRef.current);
-  const [tilesCoordinates, setTilesCoordinates] = useState<TileCoordinate[]>([]);
+  // Game state (periodic snapshot of the simulation for the UI overlay)
+  const [gameState, setGameState] = useState<GameState>(() => simulation.getState());
 
   // Error handling state
   const [gameError, setGameError] = useState<string | null>(null);
 
+  // Player settings, restored after mount (localStorage is not available during server rendering)
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_GAME_SETTINGS);
+  const [hasLoadedSettings, setHasLoadedSettings] = useState(false);
+
+  useEffect(() => {
+    const saved = loadGameSettings();
+    camera.setPreset(saved.cameraPreset, true);
+    setSettings(saved);
+    setHasLoadedSettings(true);
+  }, [camera]);
+
+  // Persist every change
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    saveGameSettings(settings);
+  }, [settings, hasLoadedSettings]);
+
+  // Camera effects follow their intensity settings, and stay off while the player prefers reduced motion
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(false);
+
+  useEffect(() => {
+    cameraEffectsRef.current.setIntensity(settings.effectIntensity);
+  }, [settings.effectIntensity]);
+
+  // Follow the system reduced-motion preference, including changes while playing
+  useEffect(() => {
+    if (typeof window === 'undefined' || !window.matchMedia) return;
+
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+    const applyPreference = () => {
+      cameraEffectsRef.current.setReducedMotion(query.matches);
+      setPrefersReducedMotion(query.matches);
+    };
+    applyPreference();
+    query.addEventListener('change', applyPreference);
+    return () => query.removeEventListener('change', applyPreference);
+  }, []);
+
+  const setEffectIntensity = useCallback((effect: keyof CameraEffectIntensity, value: number) => {
+    setSettings((previous) => ({ ...previous, effectIntensity: { ...previous.effectIntensity, [effect]: value } }));
+  }, []);
+
+  const setTouchControls = useCallback((touchControls: TouchControlMode) => {
+    setSettings((previous) => ({ ...previous, touchControls }));
+  }, []);
+
+  const togglePauseButton = useCallback(() => {
+    setSettings((previous) => ({ ...previous, showPauseButton: !previous.showPauseButton }));
+  }, []);
+
+  const setInputBufferWindow = useCallback((inputBufferWindow: number) => {
+    setSettings((previous) => ({ ...previous, inputBufferWindow }));
+  }, []);
+
+  const toggleDoubleTapDash = useCallback(() => {
+    setSettings((previous) => ({ ...previous, doubleTapDash: !previous.doubleTapDash }));
+  }, []);
+
+  const setPhysicsMode = useCallback((physicsMode: PhysicsMode) => {
+    setSettings((previous) => ({ ...previous, physicsMode }));
+  }, []);
+
+  const setShipProfile = useCallback((shipProfile: ShipProfileName) => {
+    setSettings((previous) => ({ ...previous, shipProfile }));
+  }, []);
+
+  // Steering follows the ship, physics mode, input buffer and dash settings; the render loop reads the ship colour
+  const shipColorRef = useRef<string>(SHIP_PROFILES[DEFAULT_GAME_SETTINGS.shipProfile].color);
+
+  useEffect(() => {
+    shipColorRef.current = SHIP_PROFILES[settings.shipProfile].color;
+    simulation.setPlayerControls({
+      ...SHIP_PROFILES[settings.shipProfile].handling,
+      physicsMode: settings.physicsMode,
+      inputBufferWindow: settings.inputBufferWindow,
+      dashEnabled: settings.doubleTapDash,
+    });
+  }, [simulation, settings.shipProfile, settings.physicsMode, settings.inputBufferWindow, settings.doubleTapDash]);
+
+  // Key bindings follow the settings
+  useEffect(() => {
+    inputManagerRef.current.setBindings(settings.keyBindings);
+  }, [settings.keyBindings]);
+
+  // Bind the next key pressed to an action's slot
+  const startRebind = useCallback((action: InputAction, slot: number) => {
+    setRebinding({ action, slot });
+    inputManagerRef.current.startRebind(action, slot, (keyBindings) => {
+      setRebinding(null);
+      if (keyBindings) {
+        setSettings((previous) => ({ ...previous, keyBindings }));
+      }
+    });
+  }, []);
+
+  const resetKeyBindings = useCallback(() => {
+    inputManagerRef.current.cancelRebind();
+    setSettings((previous) => ({ ...previous, keyBindings: cloneKeyBindings(DEFAULT_KEY_BINDINGS) }));
+  }, []);
+
+  // Switch camera preset; the camera blends over to it
+  const selectCameraPreset = useCallback((name: CameraPresetName) => {
+    camera.setPreset(name);
+    setSettings((previous) => ({ ...previous, cameraPreset: name }));
+  }, [camera]);
+
+  const cycleCameraPreset = useCallback(() => {
+    const index = CAMERA_PRESET_NAMES.indexOf(camera.getPreset());
+    selectCameraPreset(CAMERA_PRESET_NAMES[(index + 1) % CAMERA_PRESET_NAMES.length]);
+  }, [camera, selectCameraPreset]);
+
   // Optimized canvas size handling with error handling
   const updateCanvasSize = useCallback(() => {
     try {
@@ -91,13 +318,8 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
         setCanvasSize(prevSize => {
           // Only update if size actually changed to prevent unnecessary re-renders
           if (prevSize.width !== width || prevSize.height !== height) {
-            // Clear perspective cache when canvas size changes
-            clearPerspectiveCache();
-            
-            // Update particle system canvas size
-            if (particleSystemRef.current) {
-              particleSystemRef.current.updateCanvasSize({ width, height });
-            }
+            // Every renderer projects through the one camera
+            cameraRef.current?.setViewport({ width, height });
             
             return { width, height };
           }
@@ -116,6 +338,36 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
     return () => window.removeEventListener("resize", updateCanvasSize);
   }, [updateCanvasSize]);
 
+  // Listen to the keyboard
+  useEffect(() => {
+    const inputManager = inputManagerRef.current;
+    inputManager.attach();
+    return () => inputManager.detach();
+  }, []);
+
+  // Follow gamepads being plugged in and out
+  useEffect(() => {
+    const gamepad = gamepadRef.current;
+    gamepad.attach(setIsGamepadConnected);
+    return () => gamepad.detach();
+  }, []);
+
+  // Touch screens are only known after mount
+  useEffect(() => {
+    if (typeof window === 'undefined' || !window.matchMedia) return;
+    setHasTouchScreen(window.matchMedia('(pointer: coarse)').matches || navigator.maxTouchPoints > 0);
+  }, []);
+
+  // Tap a screen half or swipe to change lanes, unless touches steer to the lane under the finger
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || settings.touchControls !== 'swipe') return;
+
+    const touchInput = touchInputRef.current;
+    touchInput.attach(canvas, (lanes) => simulation.changeLanes(lanes));
+    return () => touchInput.detach();
+  }, [simulation, settings.touchControls]);
+
   // Canvas context initialization with error handling
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -143,97 +395,11 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
     }
   }, []);
 
-  // Generate multi-tile width route segments for coherent path (max 3 tiles wide)
-  const generateRouteSegment = useCallback((centerX: number, y: number, width: number = 2): TileCoordinate[] => {
-    const tiles: TileCoordinate[] = [];
-    
-    // Ensure width doesn't exceed 3 tiles
-    const constrainedWidth = Math.min(3, Math.max(1, width));
-    const halfWidth = Math.floor(constrainedWidth / 2);
-    
-    // Create tiles around the center position
-    for (let offset = -halfWidth; offset <= halfWidth; offset++) {
-      const tileX = centerX + offset;
-      // Ensure tile is within bounds
-      if (tileX >= 0 && tileX < GAME_CONSTANTS.NB_COLUMNS) {
-        tiles.push({ x: tileX, y: y });
-      }
-    }
-    
-    return tiles;
-  }, []);
-
-  // Generate initial tiles synchronously to prevent race condition at startup
-  const generateInitialTiles = useCallback(() => {
-    try {
-      const initialTiles: TileCoordinate[] = [];
-      
-      // Starting position (center of track, aligned with ship)
-      let centerX = Math.floor(GAME_CONSTANTS.NB_COLUMNS / 2); // Position 3
-      let lastY = gameStateRef.current.currentYLoop + 1; // Start at Y = 1
-      
-      // Generate initial set of route segments to ensure ship has a coherent path
-      for (let i = 0; i < GAME_CONSTANTS.MIN_TILES; i++) {
-        const routeWidth = Math.random() < 0.3 ? 2 : 3; // 30% chance of width 2, 70% chance of width 3
-        
-        // For the first few segments, keep path straight to ensure ship can start safely
-        if (i < 3) {
-          // Keep first 3 segments straight (no random movement)
-          const segmentTiles = generateRouteSegment(centerX, lastY, routeWidth);
-          initialTiles.push(...segmentTiles);
-        } else {
-          // After first 3 segments, allow smooth path generation with varied movement
-          const moveChance = Math.random();
-          let movement = 0;
-          
-          if (moveChance < 0.2) {
-            movement = -1; // Move left (20%)
-          } else if (moveChance < 0.4) {
-            movement = 1;  // Move right (20%)
-          }
-          // else movement = 0 (go straight - 60% for smoother paths)
-          
-          // Apply movement with bounds checking - allow more track width usage
-          // With max 3-tile width, center can be from 1 to 5 (tiles 0-6 available)
-          const newCenterX = Math.max(1, Math.min(GAME_CONSTANTS.NB_COLUMNS - 2, centerX + movement));
-          centerX = newCenterX;
-          
-          const segmentTiles = generateRouteSegment(centerX, lastY, routeWidth);
-          initialTiles.push(...segmentTiles);
-        }
-        lastY++;
-      }
-      
-      // Set tiles immediately (synchronous)
-      setTilesCoordinates(initialTiles);
-      
-      console.log(`Generated ${initialTiles.length} initial tiles in ${GAME_CONSTANTS.MIN_TILES} segments, starting at center position ${Math.floor(GAME_CONSTANTS.NB_COLUMNS / 2)}`);
-      
-    } catch (error) {
-      console.error("Error generating initial tiles:", error);
-      // Fallback: ensure at least a multi-tile segment exists where ship starts
-      const fallbackCenter = Math.floor(GAME_CONSTANTS.NB_COLUMNS / 2);
-      const fallbackTiles = generateRouteSegment(fallbackCenter, gameStateRef.current.currentYLoop + 1, 2);
-      setTilesCoordinates(fallbackTiles);
-    }
-  }, [generateRouteSegment]);
-
-  // Initialize game controllers
+  // Initialize game systems on mount and when the seed changes; resizing only affects the renderers
   useEffect(() => {
     try {
-      // Initialize player controller
-      playerControllerRef.current.initialize(gameStateRef.current.shipPosition);
-      
-      // Set collision detector boundaries (fix off-by-one error)
-      collisionDetectorRef.current.setBoundaries({
-        minX: 0,
-        maxX: GAME_CONSTANTS.NB_COLUMNS - 1, // Valid positions: 0 to 6
-        minY: 0,
-        maxY: Number.MAX_SAFE_INTEGER,
-      });
-
       // Initialize particle system
-      particleSystemRef.current = new ParticleSystem(canvasSize, {
+      particleSystemRef.current = new ParticleSystem(nbColumns, {
         maxParticles: 150,
         spawnRate: 0.8,
         speedThreshold: 180,
@@ -242,148 +408,38 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
         enableDust: true,
       });
 
-      // Generate initial tiles synchronously to prevent race condition
-      generateInitialTiles();
+      // Start a fresh run on the requested seed, or the current one
+      simulation.reset(seed ?? simulation.getSeed());
+      timestepRef.current.reset();
+      setGameState(simulation.getState());
 
     } catch (error) {
-      console.error("Error initializing game controllers:", error);
-      setGameError("Failed to initialize game controllers");
+      console.error("Error initializing game systems:", error);
+      setGameError("Failed to initialize game systems");
     }
 
-    // Capture the controller reference for cleanup
-    const controller = playerControllerRef.current;
-    
     // Cleanup function
     return () => {
-      try {
-        if (controller) {
-          controller.cleanup();
-        }
-      } catch (error) {
-        console.error("Error cleaning up game controllers:", error);
-      }
+      simulation.dispose();
     };
-  }, [generateInitialTiles, canvasSize]);
-
-  // Optimized tile generation with multi-tile width route segments
-  const generateTilesCoordinates = useCallback(() => {
-    setTilesCoordinates((prevTiles) => {
-      try {
-        // Filter tiles efficiently without creating intermediate arrays
-        const validTiles = prevTiles.filter((tile) => tile.y >= gameStateRef.current.currentYLoop);
-        
-        // Count segments instead of individual tiles to determine how many we need
-        const segmentsByY = new Map<number, TileCoordinate[]>();
-        validTiles.forEach(tile => {
-          if (!segmentsByY.has(tile.y)) {
-            segmentsByY.set(tile.y, []);
-          }
-          segmentsByY.get(tile.y)!.push(tile);
-        });
-        
-        const segmentsNeeded = GAME_CONSTANTS.MIN_TILES - segmentsByY.size;
-        if (segmentsNeeded <= 0) return prevTiles;
-
-        // Find the last segment's center position for continuity
-        const lastSegmentY = Math.max(...Array.from(segmentsByY.keys()));
-        const lastSegmentTiles = segmentsByY.get(lastSegmentY) || [];
-        
-        // Calculate center of last segment for smooth continuation
-        let centerX: number;
-        if (lastSegmentTiles.length > 0) {
-          const minX = Math.min(...lastSegmentTiles.map(t => t.x));
-          const maxX = Math.max(...lastSegmentTiles.map(t => t.x));
-          centerX = Math.floor((minX + maxX) / 2);
-        } else {
-          centerX = Math.floor(GAME_CONSTANTS.NB_COLUMNS / 2);
-        }
-        
-        let nextY = lastSegmentY + 1;
-
-        // Generate new route segments
-        const newTiles: TileCoordinate[] = [];
-        for (let i = 0; i < segmentsNeeded; i++) {
-          const routeWidth = Math.random() < 0.3 ? 2 : 3; // 30% chance of width 2, 70% chance of width 3
-          
-          // Smooth path generation with controlled movement for variety
-          const moveChance = Math.random();
-          let movement = 0;
-          
-          if (moveChance < 0.2) {
-            movement = -1; // Move left (20%)
-          } else if (moveChance < 0.4) {
-            movement = 1;  // Move right (20%)
-          }
-          // else movement = 0 (go straight - 60% for smoother, more natural paths)
-          
-          // Apply movement with bounds checking - allow more track width usage
-          // With max 3-tile width, center can be from 1 to 5 (tiles 0-6 available)
-          centerX = Math.max(1, Math.min(GAME_CONSTANTS.NB_COLUMNS - 2, centerX + movement));
-          
-          const segmentTiles = generateRouteSegment(centerX, nextY, routeWidth);
-          newTiles.push(...segmentTiles);
-          nextY++;
-        }
+  }, [simulation, nbColumns, seed]);
 
-        return [...validTiles, ...newTiles];
-      } catch (error) {
-        console.error("Error generating tiles:", error);
-        return prevTiles; // Return previous state on error
-      }
-    });
-  }, [generateRouteSegment]);
-
-  // Handle collision events
-  const handleCollision = useCallback((gameState: GameState, collision: CollisionResult) => {
+  // Player feedback for collisions reported by the simulation
+  // Collisions repeat every step while a contact lasts: the shake is held throughout, haptics fire when it starts
+  const handleCollisionFeedback = useCallback((collision: CollisionResult, isNewContact: boolean) => {
     try {
-      gameState.lastCollision = collision;
-
-      switch (collision.severity) {
-        case 'fatal':
-          // Immediate game over
-          gameState.lives = 0;
-          gameState.gameStatus = 'gameOver';
-          break;
-          
-        case 'major':
-          // Lose a life
-          gameState.lives -= 1;
-          if (gameState.lives <= 0) {
-            gameState.gameStatus = 'gameOver';
-          } else {
-            // Brief pause and reset position
-            setTimeout(() => {
-              if (gameState.gameStatus === 'playing') {
-                playerControllerRef.current.setPosition(
-                  Math.floor(GAME_CONSTANTS.NB_COLUMNS / 2),
-                  GAME_CONSTANTS.NB_COLUMNS
-                );
-              }
-            }, 500);
-          }
-          break;
-          
-        case 'minor':
-          // Small score penalty, no life lost
-          gameState.score = Math.max(0, gameState.score - 50);
-          break;
-          
-        default:
-          // No action needed
-          break;
-      }
-
-      // Visual feedback for collision
-      if (collision.severity !== 'none') {
-        console.log(`Collision detected: ${collision.collisionType} (${collision.severity})`);
-        
-        // Could add screen shake, sound effects, etc. here
-        if (typeof window !== 'undefined' && 'navigator' in window && 'vibrate' in navigator) {
-          // Haptic feedback on mobile devices
-          const intensity = collision.severity === 'fatal' ? 200 : 
-                          collision.severity === 'major' ? 100 : 50;
-          navigator.vibrate(intensity);
-        }
+      if (collision.severity === 'none') return;
+
+      // Shake the camera and rumble the gamepad in proportion to the hit
+      cameraEffectsRef.current.addCollisionTrauma(collision.severity);
+      if (!isNewContact) return;
+
+      gamepadRef.current.rumble(collision.severity);
+      if (typeof window !== 'undefined' && 'navigator' in window && 'vibrate' in navigator) {
+        // Haptic feedback on mobile devices
+        const intensity = collision.severity === 'fatal' ? 200 : 
+                        collision.severity === 'major' ? 100 : 50;
+        navigator.vibrate(intensity);
       }
 
     } catch (error) {
@@ -394,80 +450,92 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
   // Reset game to initial state
   const resetGame = useCallback(() => {
     try {
-      const initialState: GameState = {
-        currentOffsetY: 0,
-        currentYLoop: 0,
-        shipPosition: Math.floor(GAME_CONSTANTS.NB_COLUMNS / 2),
-        speed: GAME_CONSTANTS.SCROLL_SPEED,
-        score: 0,
-        lives: 3,
-        gameStatus: 'playing',
-        lastCollision: null,
-      };
-
-      gameStateRef.current = initialState;
-      setGameState(initialState);
-      
-      // Reset controllers
-      playerControllerRef.current.setPosition(
-        initialState.shipPosition,
-        GAME_CONSTANTS.NB_COLUMNS
-      );
+      // Replay the same course when a seed was requested, otherwise roll a new one
+      simulation.reset(seed ?? SeededRandom.createSeed());
+      timestepRef.current.reset();
+      setGameState(simulation.getState());
       
       // Clear particle system
       if (particleSystemRef.current) {
         particleSystemRef.current.clear();
       }
-      
-      // Generate initial tiles synchronously to prevent race condition
-      generateInitialTiles();
+      cameraEffectsRef.current.reset();
+      wasInContactRef.current = false;
       
     } catch (error) {
       console.error('Error resetting game:', error);
       setGameError('Failed to reset game');
     }
-  }, [generateInitialTiles]);
+  }, [simulation, seed]);
 
   // Pause/unpause game
   const togglePause = useCallback(() => {
-    const currentState = gameStateRef.current;
-    if (currentState.gameStatus === 'playing') {
-      currentState.gameStatus = 'paused';
-    } else if (currentState.gameStatus === 'paused') {
-      currentState.gameStatus = 'playing';
-    }
-    setGameState({ ...currentState });
-  }, []);
+    simulation.togglePause();
+    setGameState(simulation.getState());
+  }, [simulation]);
 
-  // Global keyboard handlers for game controls
+  // Pressed actions from any device: pause, restart once a run is over or paused, and switch camera
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      switch (e.key.toLowerCase()) {
-        case ' ':
-        case 'space':
-          e.preventDefault();
+    return inputManagerRef.current.onPress((action) => {
+      switch (action) {
+        case 'pause':
           togglePause();
           break;
-        case 'r':
-          e.preventDefault();
-          if (gameState.gameStatus === 'gameOver' || e.ctrlKey) {
+        case 'restart':
+          if (simulation.getState().gameStatus !== 'playing') {
             resetGame();
           }
           break;
-        case 'escape':
-          e.preventDefault();
-          if (gameState.gameStatus === 'playing') {
-            togglePause();
-          }
+        case 'switchCamera':
+          cycleCameraPreset();
           break;
       }
+    });
+  }, [simulation, togglePause, resetGame, cycleCameraPreset]);
+
+  // Rebinding only happens in the pause menu; leaving it drops a rebind in progress
+  useEffect(() => {
+    if (gameState.gameStatus !== 'paused') {
+      inputManagerRef.current.cancelRebind();
+    }
+  }, [gameState.gameStatus]);
+
+  // Pointer steering: the ship heads for the lane under the mouse, or under a finger while it touches the screen
+  // (touches only in the tap-on-lane touch mode; otherwise they tap and swipe)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handlePointer = (e: PointerEvent) => {
+      try {
+        if (e.pointerType === 'touch' && settings.touchControls !== 'lane') return;
+        if (e.type === 'pointermove' && e.pointerType !== 'mouse' && e.buttons === 0) return;
+
+        // The canvas may be drawn at a different size than its backing store
+        const rect = canvas.getBoundingClientRect();
+        if (rect.width <= 0 || rect.height <= 0) return;
+        const x = ((e.clientX - rect.left) * canvas.width) / rect.width;
+        const y = ((e.clientY - rect.top) * canvas.height) / rect.height;
+
+        const { curve, elevation } = roadShapeRef.current;
+        const point = unprojectRoadPoint(camera, x, y, curve, elevation);
+        if (point) {
+          simulation.steerToLane(point.lane);
+        }
+      } catch (error) {
+        console.error('Error handling pointer steering:', error);
+      }
     };
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [togglePause, resetGame, gameState.gameStatus]);
+    canvas.addEventListener('pointerdown', handlePointer);
+    canvas.addEventListener('pointermove', handlePointer);
+    return () => {
+      canvas.removeEventListener('pointerdown', handlePointer);
+      canvas.removeEventListener('pointermove', handlePointer);
+    };
+  }, [camera, simulation, settings.touchControls]);
 
-  // Unified game loop with proper cleanup and time-based animation
+  // Render loop - steps the simulation and draws its state
   useEffect(() => {
     if (!context) return;
 
@@ -479,94 +547,97 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
 
       try {
         frameCount++;
-        // Calculate delta time for smooth animation
-        const deltaTime = lastTimeRef.current > 0 ? (currentTime - lastTimeRef.current) / 1000 : 0;
+        // Calculate frame delta, clamped so a tab switch cannot produce a multi-second jump
+        const timestep = timestepRef.current;
+        const rawDelta = lastTimeRef.current > 0 ? (currentTime - lastTimeRef.current) / 1000 : 0;
+        const deltaTime = timestep.clampFrameDelta(rawDelta);
         lastTimeRef.current = currentTime;
 
-        // Update game state only if playing
-        const currentState = gameStateRef.current;
-        
-        if (currentState.gameStatus === 'playing') {
-          // Update player input and ship position
-          const playerState = playerControllerRef.current.update(deltaTime, GAME_CONSTANTS.NB_COLUMNS);
-          currentState.shipPosition = playerState.position;
-
-          // Update scrolling
-          const newOffsetY = currentState.currentOffsetY + (currentState.speed * deltaTime);
-          const spacingY = GAME_CONSTANTS.TILE_SPACING * canvasSize.height;
-
-          if (newOffsetY >= spacingY) {
-            currentState.currentYLoop += 1;
-            currentState.currentOffsetY = newOffsetY - spacingY;
-            currentState.score += 10; // Increment score
-            
-            // Generate new tiles synchronously before collision detection
-            generateTilesCoordinates();
-          } else {
-            currentState.currentOffsetY = newOffsetY;
-          }
-
-          // Check collisions (after tile generation if needed)
-          // Only check collisions if we have sufficient tiles to avoid false positives
-          let collisionResult: CollisionResult = { 
-            hasCollision: false, 
-            severity: 'none', 
-            collisionType: 'none', 
-            distance: 0, 
-            position: { x: currentState.shipPosition, y: 0 } 
-          };
-          
-          if (tilesCoordinates.length >= 3) { // Require at least 3 tiles before collision detection
-            collisionResult = collisionDetectorRef.current.checkAllCollisions(
-              currentState.shipPosition,
-              0, // Ship Y position (always at bottom)
-              tilesCoordinates,
-              currentState.currentYLoop
-            );
-          }
-
-          // Handle collision
-          if (collisionResult.hasCollision && collisionResult.severity !== 'none') {
-            handleCollision(currentState, collisionResult);
-          } else {
-            // Clear previous collision if no longer colliding
-            currentState.lastCollision = null;
-          }
-
-          // Update progressive speed system
-          const isOnTrack = !collisionResult.hasCollision || collisionResult.severity === 'none';
-          speedSystemRef.current.update(deltaTime, isOnTrack, currentState.score);
-          currentState.speed = speedSystemRef.current.getCurrentSpeed();
-
-          // Handle perfect turns and near misses for skill bonuses
-          if (isOnTrack && Math.abs(playerState.position - Math.floor(playerState.position + 0.5)) < 0.1) {
-            // Player is very close to lane center - record perfect turn
-            speedSystemRef.current.recordPerfectTurn();
-          }
+        // Gamepad: steering, jump, boost and brake are held like keys, Start and Back press pause and restart
+        const inputManager = inputManagerRef.current;
+        const gamepadState = gamepadRef.current.poll();
+        inputManager.setSourceState('gamepad', {
+          steerLeft: gamepadState?.left ?? false,
+          steerRight: gamepadState?.right ?? false,
+          jump: gamepadState?.jump ?? false,
+          boost: gamepadState?.boost ?? false,
+          brake: gamepadState?.brake ?? false,
+        });
+        if (gamepadState?.pausePressed) {
+          inputManager.trigger('pause');
+        }
+        if (gamepadState?.restartPressed) {
+          inputManager.trigger('restart');
+        }
 
-          // Reset combo on collision
-          if (collisionResult.hasCollision && collisionResult.severity !== 'none') {
-            speedSystemRef.current.resetCombo();
+        // Advance gameplay in fixed steps (each step is a no-op unless playing)
+        // Inputs are read per step, and a tap is only forgotten once a step has seen it
+        const stepResults: SimulationStepResult[] = [];
+        const alpha = timestep.advance(deltaTime, (stepSize) => {
+          const stepResult = simulation.step(stepSize, inputManager.getActionState());
+          inputManager.consumePresses();
+          if (!stepResult) return;
+
+          stepResults.push(stepResult);
+          if (stepResult.collision.hasCollision) {
+            handleCollisionFeedback(stepResult.collision, !wasInContactRef.current);
           }
+          wasInContactRef.current = stepResult.collision.hasCollision;
+        });
+        const currentState = simulation.getState();
+        const view = simulation.getInterpolatedView(alpha);
+        const frameStep = stepResults.length > 0 ? stepResults[stepResults.length - 1] : null;
+        perfectLandingTimeRef.current = stepResults.some((stepResult) => stepResult.perfectLanding)
+          ? GAME_CONSTANTS.PERFECT_LANDING_BANNER_TIME
+          : Math.max(0, perfectLandingTimeRef.current - deltaTime);
+
+        // Road bends and hills ahead of the ship; driving through a bend swings the scenery the other way
+        const track = simulation.getTrack();
+        const { curves, elevations } = roadLookaheadRef.current;
+        for (let i = 0; i < GAME_CONSTANTS.ROAD_LOOKAHEAD_ROWS; i++) {
+          curves[i] = track.getCurve(view.currentYLoop + i);
+          elevations[i] = track.getElevation(view.currentYLoop + i);
+        }
+        const roadCurve = updateRoadCurve(roadShapeRef.current.curve, curves, view.rowProgress);
+        const roadElevation = updateRoadElevation(roadShapeRef.current.elevation, elevations, view.rowProgress);
+        const roadPosition = view.currentYLoop + view.rowProgress;
+        const rowsTravelled = Math.max(0, roadPosition - lastRoadPositionRef.current);
+        lastRoadPositionRef.current = roadPosition;
+        horizonPanRef.current -= roadCurve.shipCurve * rowsTravelled * GAME_CONSTANTS.HORIZON_PAN_PER_CURVE;
+
+        const isBoosting = currentState.isBoosting || simulation.getSpeedState().boostTimeRemaining > 0;
+        if (frameStep) {
+          lateralVelocityRef.current = frameStep.playerState.velocity;
+        } else if (currentState.gameStatus !== 'playing') {
+          lateralVelocityRef.current = 0;
+        }
 
-          // Update particle system
-          if (particleSystemRef.current) {
-            const speedState = speedSystemRef.current.getState();
-            const isBoosting = speedState.boostTimeRemaining > 0;
-            
-            particleSystemRef.current.update(
-              deltaTime,
-              currentState.speed,
-              currentState.shipPosition,
-              isOnTrack,
-              isBoosting
-            );
-          }
+        // Camera transitions and effects are visual only, so they follow the clamped frame delta
+        camera.setShipLane(view.shipPosition + 0.5);
+        camera.update(deltaTime);
+        cameraEffectsRef.current.update(deltaTime, isBoosting, lateralVelocityRef.current);
+        camera.setEffects(cameraEffectsRef.current.getState());
+        const interiorBlend = camera.getInteriorBlend();
+
+        // Project the road once for every renderer that draws on it
+        const projection = projectionTableRef.current;
+        projection.build(camera, view.rowProgress, roadCurve, roadElevation);
+
+        // Update particle system (visual only, so it follows the clamped frame delta)
+        if (frameStep && particleSystemRef.current) {
+          particleSystemRef.current.update(
+            deltaTime,
+            currentState.speed,
+            view.shipPosition,
+            frameStep.isOnTrack,
+            isBoosting
+          );
         }
 
         // Update React state periodically (not every frame for performance)
         if (frameCount % 10 === 0) {
-          setGameState({ ...currentState });
+          setGameState(currentState);
+          setShowPerfectLanding(perfectLandingTimeRef.current > 0);
         }
 
         // Clear canvas efficiently
@@ -574,40 +645,79 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
 
         // Render game objects with error handling
         try {
+          // Everything in the world shakes and rolls with the camera
+          context.save();
+          camera.applyScreenEffects(context);
+
           // Draw parallax background and track base
           Track({
             context,
             canvasSize,
-            nbColumns: GAME_CONSTANTS.NB_COLUMNS,
+            projection,
+            nbColumns,
             showBackground: true,
             showGridLines: true,
             showCenterLine: true,
             gameSpeed: currentState.speed / GAME_CONSTANTS.SCROLL_SPEED,
-            scrollOffset: currentState.currentOffsetY + (currentState.currentYLoop * canvasSize.height * GAME_CONSTANTS.TILE_SPACING)
+            scrollOffset: rowsToPixels(view.currentYLoop + view.rowProgress, canvasSize.height),
+            horizonPan: horizonPanRef.current
           });
 
           // Draw path tiles
           Path({
             context,
             canvasSize,
-            currentOffsetY: currentState.currentOffsetY,
-            currentYLoop: currentState.currentYLoop,
-            nbColumns: GAME_CONSTANTS.NB_COLUMNS,
-            tilesCoordinates,
+            projection,
+            rowProgress: view.rowProgress,
+            currentYLoop: view.currentYLoop,
+            nbColumns,
+            track,
+          });
+
+          // Draw obstacles standing on the path
+          Obstacles({
+            context,
+            canvasSize,
+            camera,
+            rowProgress: view.rowProgress,
+            currentYLoop: view.currentYLoop,
+            nbColumns,
+            track,
+            roadCurve,
+            roadElevation,
           });
 
           // Draw particles (before ship for proper layering)
           if (particleSystemRef.current) {
-            particleSystemRef.current.render(context);
+            particleSystemRef.current.render(context, camera, roadCurve, roadElevation);
           }
 
-          // Draw ship if enabled
+          // Draw ship if enabled; from the cockpit the dashboard takes its place
           if (showShip) {
             Ship({
               canvasContext: context,
               canvasSize,
-              shipPosition: currentState.shipPosition,
-              nbColumns: GAME_CONSTANTS.NB_COLUMNS,
+              projection,
+              shipPosition: view.shipPosition,
+              altitude: view.shipHeight,
+              nbColumns,
+              color: shipColorRef.current,
+              opacity: 1 - interiorBlend,
+              roadCurve,
+            });
+          }
+          context.restore();
+
+          // The dashboard stays steady in front of the view
+          if (showShip) {
+            Dashboard({
+              context,
+              canvasSize,
+              speed: currentState.speed,
+              maxSpeed: SPEED_PRESETS[simulation.getConfig().speedPreset].maxSpeed,
+              shipPosition: view.shipPosition,
+              nbColumns,
+              opacity: interiorBlend,
             });
           }
         } catch (renderError) {
@@ -634,8 +744,14 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
         animationFrameRef.current = null;
       }
     };
-  }, [context, canvasSize, showShip, tilesCoordinates, generateTilesCoordinates, handleCollision]);
+  }, [context, canvasSize, camera, showShip, simulation, nbColumns, handleCollisionFeedback]);
+
 
+  // Keys bound to an action, for the controls overlay
+  const describeKeys = (action: InputAction) => {
+    const keys = settings.keyBindings[action];
+    return keys.length > 0 ? keys.map(getKeyLabel).join(" ") : "Unbound";
+  };
 
   // Error display component
   const ErrorDisplay = () => {
@@ -658,7 +774,7 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
   };
 
   return (
-    <div className="w-full h-full relative">
+    <div className="w-full h-full relative select-none" style={{ touchAction: 'none', overscrollBehavior: 'none' }}>
       <canvas
         ref={canvasRef}
         width={canvasSize.width}
@@ -667,7 +783,8 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
         style={{
           width: '100%',
           height: '100%',
-          imageRendering: 'pixelated' // For crisp pixel art if needed
+          imageRendering: 'pixelated', // For crisp pixel art if needed
+          touchAction: 'none' // Touches steer the ship instead of scrolling the page
         }}
       />
       <ErrorDisplay />
@@ -678,18 +795,50 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
         <div className="absolute top-4 left-4 text-white text-lg font-bold bg-black bg-opacity-50 p-3 rounded-lg">
           <div>Score: {gameState.score}</div>
           <div>Lives: {gameState.lives}</div>
-          <div>Speed: {Math.round(gameState.speed)}px/s</div>
+          {gameState.perfectLandings > 0 && <div>Landings: {gameState.perfectLandings}</div>}
+          {gameState.nearMisses > 0 && <div>Near misses: {gameState.nearMisses}</div>}
+          <MeterGauge label="Boost" value={gameState.boostMeter} colorClass="bg-yellow-400" />
+          <MeterGauge
+            label="Brake"
+            value={gameState.brakeMeter}
+            colorClass={gameState.isBraking ? "bg-red-500" : "bg-sky-400"}
+          />
+          <div>Speed: {speedToRowsPerSecond(gameState.speed).toFixed(1)} rows/s</div>
+          {level && (
+            <div>Time: {gameState.elapsedTime.toFixed(1)}s / par {level.meta.parTime}s</div>
+          )}
         </div>
 
         {/* Controls Info */}
         <div className="absolute top-4 right-4 text-white text-sm text-right bg-black bg-opacity-50 p-3 rounded-lg">
-          <div>← → or A D: Move</div>
-          <div>Space: Pause</div>
-          <div>R: Reset</div>
+          <div>{describeKeys("steerLeft")} / {describeKeys("steerRight")}: Move</div>
+          {settings.doubleTapDash && <div>Double-tap: Dash</div>}
+          <div>{describeKeys("jump")}: Jump</div>
+          <div>{describeKeys("boost")}: Boost · {describeKeys("brake")}: Brake</div>
+          <div>
+            {hasTouchScreen && settings.touchControls === 'swipe' ? 'Tap sides / swipe: Move' : 'Mouse / touch: Steer to lane'}
+          </div>
+          {isGamepadConnected && (
+            <div className="mt-1 text-green-300">Gamepad: D-pad / stick, A, triggers, Start, Back</div>
+          )}
+          <div>{describeKeys("pause")}: Pause</div>
+          <div>{describeKeys("restart")}: Reset</div>
+          <div>{describeKeys("switchCamera")}: Camera ({CAMERA_PRESETS[settings.cameraPreset].label})</div>
         </div>
 
+        {/* On-screen pause button for touch screens */}
+        {hasTouchScreen && settings.showPauseButton && gameState.gameStatus === 'playing' && (
+          <button
+            onClick={togglePause}
+            aria-label="Pause"
+            className="absolute top-4 left-1/2 -translate-x-1/2 w-12 h-12 rounded-full bg-black bg-opacity-50 text-white text-lg font-bold pointer-events-auto"
+          >
+            II
+          </button>
+        )}
+
         {/* Speed Boost Indicator */}
-        {speedSystemRef.current && speedSystemRef.current.getState().boostTimeRemaining > 0 && (
+        {(gameState.isBoosting || simulation.getSpeedState().boostTimeRemaining > 0) && (
           <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2">
             <div className="text-3xl font-bold text-yellow-400 animate-pulse">
               BOOST!
@@ -697,6 +846,15 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
           </div>
         )}
 
+        {/* Perfect Landing Indicator */}
+        {showPerfectLanding && gameState.gameStatus === 'playing' && (
+          <div className="absolute top-1/3 left-1/2 transform -translate-x-1/2 -translate-y-1/2">
+            <div className="text-2xl font-bold text-green-400 animate-pulse">
+              PERFECT LANDING!
+            </div>
+          </div>
+        )}
+
         {/* Collision Warning */}
         {gameState.lastCollision && gameState.lastCollision.severity !== 'none' && (
           <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2">
@@ -707,6 +865,8 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
             }`}>
               {gameState.lastCollision.collisionType === 'off-track' ? 'OFF TRACK!' :
                gameState.lastCollision.collisionType === 'boundary' ? 'BOUNDARY HIT!' :
+               gameState.lastCollision.collisionType === 'obstacle' ? 'OBSTACLE HIT!' :
+               gameState.lastCollision.collisionType === 'gap' ? 'FELL IN THE GAP!' :
                'COLLISION!'}
             </div>
           </div>
@@ -719,7 +879,10 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
               <h2 className="text-4xl font-bold mb-6 text-red-500">Game Over</h2>
               <p className="text-2xl mb-3">Final Score: <span className="font-bold text-yellow-400">{gameState.score}</span></p>
               <p className="text-xl mb-2">Distance Traveled: <span className="font-bold">{gameState.currentYLoop} segments</span></p>
-              <p className="text-lg mb-8">Top Speed: <span className="font-bold">{Math.round(speedSystemRef.current?.getSpeedBreakdown().total || 0)} px/s</span></p>
+              <p className="text-lg mb-2">Top Speed: <span className="font-bold">{speedToRowsPerSecond(simulation.getSpeedBreakdown().total).toFixed(1)} rows/s</span></p>
+              <p className="text-sm mb-8 text-gray-400">
+                {level ? <>Course: {level.meta.name}</> : <>Track Seed: <span className="font-mono">{simulation.getSeed()}</span></>}
+              </p>
               <button 
                 onClick={resetGame}
                 className="px-8 py-4 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 rounded-xl font-bold text-xl transition-all transform hover:scale-105"
@@ -730,6 +893,29 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
           </div>
         )}
 
+        {/* Level Complete Screen */}
+        {gameState.gameStatus === 'complete' && level && (
+          <div className="absolute inset-0 bg-black bg-opacity-80 flex items-center justify-center pointer-events-auto">
+            <div className="bg-gray-900 text-white p-8 rounded-xl text-center border-2 border-green-500 shadow-lg">
+              <h2 className="text-4xl font-bold mb-2 text-green-400">Course Complete</h2>
+              <p className="text-lg mb-6 text-gray-300">{level.meta.name} <span className="text-gray-500">by {level.meta.author}</span></p>
+              <p className="text-2xl mb-3">Score: <span className="font-bold text-yellow-400">{gameState.score}</span></p>
+              <p className="text-xl mb-8">
+                Time: <span className="font-bold">{gameState.elapsedTime.toFixed(2)}s</span>{' '}
+                <span className={gameState.elapsedTime <= level.meta.parTime ? 'text-green-400' : 'text-orange-400'}>
+                  (par {level.meta.parTime}s)
+                </span>
+              </p>
+              <button 
+                onClick={resetGame}
+                className="px-8 py-4 bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 rounded-xl font-bold text-xl transition-all transform hover:scale-105"
+              >
+                Race Again
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Pause Screen */}
         {gameState.gameStatus === 'paused' && (
           <div className="absolute inset-0 bg-black bg-opacity-70 flex items-center justify-center pointer-events-auto">
@@ -739,6 +925,158 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
                 <p className="text-xl">Score: <span className="font-bold text-yellow-400">{gameState.score}</span></p>
                 <p className="text-xl">Lives: <span className="font-bold text-green-400">{gameState.lives}</span></p>
               </div>
+
+              {/* Settings */}
+              <div className="mb-6">
+                <p className="text-sm text-gray-400 mb-2">Camera</p>
+                <div className="flex justify-center gap-2">
+                  {CAMERA_PRESET_NAMES.map((name) => (
+                    <button
+                      key={name}
+                      onClick={() => selectCameraPreset(name)}
+                      className={`px-3 py-1 rounded-lg text-sm transition ${
+                        settings.cameraPreset === name ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                      }`}
+                    >
+                      {CAMERA_PRESETS[name].label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="mb-6">
+                <p className="text-sm text-gray-400 mb-2">Camera effects</p>
+                {prefersReducedMotion ? (
+                  <p className="text-xs text-gray-500">Off while your system prefers reduced motion</p>
+                ) : (
+                  EFFECT_SETTINGS.map(({ effect, label }) => (
+                    <div key={effect} className="flex items-center justify-center gap-2 mb-1">
+                      <span className="w-20 text-right text-sm text-gray-300">{label}</span>
+                      {EFFECT_LEVELS.map((level) => (
+                        <button
+                          key={level.label}
+                          onClick={() => setEffectIntensity(effect, level.value)}
+                          className={`px-2 py-0.5 rounded text-xs transition ${
+                            settings.effectIntensity[effect] === level.value ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                          }`}
+                        >
+                          {level.label}
+                        </button>
+                      ))}
+                    </div>
+                  ))
+                )}
+              </div>
+              {hasTouchScreen && (
+                <div className="mb-6">
+                  <p className="text-sm text-gray-400 mb-2">Touch controls</p>
+                  <div className="flex justify-center gap-2">
+                    {TOUCH_CONTROL_MODES.map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => setTouchControls(mode)}
+                        className={`px-3 py-1 rounded-lg text-sm transition ${
+                          settings.touchControls === mode ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                        }`}
+                      >
+                        {TOUCH_CONTROL_LABELS[mode]}
+                      </button>
+                    ))}
+                    <button
+                      onClick={togglePauseButton}
+                      className={`px-3 py-1 rounded-lg text-sm transition ${
+                        settings.showPauseButton ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                      }`}
+                    >
+                      Pause button
+                    </button>
+                  </div>
+                </div>
+              )}
+              <div className="mb-6">
+                <p className="text-sm text-gray-400 mb-2">Ship</p>
+                <div className="flex justify-center gap-2 mb-2">
+                  {SHIP_PROFILE_NAMES.map((name) => (
+                    <button
+                      key={name}
+                      onClick={() => setShipProfile(name)}
+                      className={`px-3 py-1 rounded-lg text-sm transition ${
+                        settings.shipProfile === name ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                      }`}
+                    >
+                      <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: SHIP_PROFILES[name].color }} />
+                      {SHIP_PROFILES[name].label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center justify-center gap-2">
+                  <span className="w-24 text-right text-sm text-gray-300">Physics</span>
+                  {PHYSICS_MODES.map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setPhysicsMode(mode)}
+                      className={`px-2 py-0.5 rounded text-xs transition ${
+                        settings.physicsMode === mode ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                      }`}
+                    >
+                      {PHYSICS_MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="mb-6">
+                <p className="text-sm text-gray-400 mb-2">Steering</p>
+                <div className="flex items-center justify-center gap-2 mb-1">
+                  <span className="w-24 text-right text-sm text-gray-300">Input buffer</span>
+                  {INPUT_BUFFER_LEVELS.map((level) => (
+                    <button
+                      key={level.label}
+                      onClick={() => setInputBufferWindow(level.value)}
+                      className={`px-2 py-0.5 rounded text-xs transition ${
+                        settings.inputBufferWindow === level.value ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                      }`}
+                    >
+                      {level.label}
+                    </button>
+                  ))}
+                  <button
+                    onClick={toggleDoubleTapDash}
+                    className={`px-2 py-0.5 rounded text-xs transition ${
+                      settings.doubleTapDash ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                    }`}
+                  >
+                    Double-tap dash
+                  </button>
+                </div>
+              </div>
+              <div className="mb-6">
+                <p className="text-sm text-gray-400 mb-2">Keys</p>
+                {INPUT_ACTIONS.map((action) => (
+                  <div key={action} className="flex items-center justify-center gap-2 mb-1">
+                    <span className="w-24 text-right text-sm text-gray-300">{ACTION_LABELS[action]}</span>
+                    {Array.from({ length: BINDING_SLOTS }, (_, slot) => {
+                      const isWaiting = rebinding?.action === action && rebinding.slot === slot;
+                      const key = settings.keyBindings[action][slot];
+                      return (
+                        <button
+                          key={slot}
+                          onClick={() => startRebind(action, slot)}
+                          className={`w-24 px-2 py-0.5 rounded text-xs transition ${
+                            isWaiting ? 'bg-blue-600 animate-pulse' : 'bg-gray-700 hover:bg-gray-600'
+                          }`}
+                        >
+                          {isWaiting ? 'Press a key…' : key !== undefined ? getKeyLabel(key) : '—'}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ))}
+                <button
+                  onClick={resetKeyBindings}
+                  className="mt-1 px-3 py-1 rounded-lg text-xs bg-gray-700 hover:bg-gray-600 transition"
+                >
+                  Reset keys
+                </button>
+              </div>
               <button 
                 onClick={togglePause}
                 className="px-6 py-3 bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 rounded-lg font-bold text-xl transition-all transform hover:scale-105"
@@ -756,8 +1094,9 @@ const Game: React.FC<GameProps> = ({ showShip }) => {
           <div>Status: {gameState.gameStatus}</div>
           <div>Ship Pos: {gameState.shipPosition.toFixed(2)}</div>
           <div>Y Loop: {gameState.currentYLoop}</div>
-          <div>Offset: {Math.round(gameState.currentOffsetY)}</div>
-          <div>Tiles: {tilesCoordinates.length}</div>
+          <div>Row Progress: {gameState.rowProgress.toFixed(2)}</div>
+          <div>Tiles: {simulation.getTrack().getTileCount()}</div>
+          <div>Seed: {simulation.getSeed()}</div>
           {particleSystemRef.current && (
             <div>Particles: {particleSystemRef.current.getParticleCount()}</div>
           )}
@@ -0,0 +1,231 @@
+import {
+  projectRoadPoint,
+  getRowOcclusionLines,
+  STRAIGHT_ROAD,
+  FLAT_ROAD
+} from "../utils/perspective";
+import type { RoadCurve, RoadElevation } from "../utils/perspective";
+import type { Camera } from "../utils/Camera";
+import { WORLD_UNITS } from "../utils/worldUnits";
+import { OBSTACLE_SPECS } from "../utils/obstacles";
+import type { Obstacle, ObstacleType } from "../utils/obstacles";
+import type { TrackBuffer } from "../utils/TrackBuffer";
+
+interface ObstaclesProps {
+  context: CanvasRenderingContext2D;
+  canvasSize: { width: number; height: number };
+  camera: Camera;
+  rowProgress: number; // How far the ship is into its row (0-1)
+  currentYLoop: number;
+  nbColumns: number;
+  track: TrackBuffer;
+  roadCurve?: RoadCurve; // Bend of the road ahead; straight when omitted
+  roadElevation?: RoadElevation; // Hills and dips ahead; level when omitted
+}
+
+interface ObstaclePalette {
+  front: string;
+  top: string;
+  outline: string;
+}
+
+interface ObstaclesConfig {
+  minScreenWidth: number; // Obstacles narrower than this (in pixels) are skipped
+  colors: Record<ObstacleType, ObstaclePalette>;
+  stripeColor: string; // Warning stripes on barriers
+}
+
+// Obstacle rendering configuration
+const OBSTACLES_CONFIG: ObstaclesConfig = {
+  minScreenWidth: 2,
+  colors: {
+    block: { front: "#dc2626", top: "#f87171", outline: "#7f1d1d" }, // Red crates
+    barrier: { front: "#f97316", top: "#fdba74", outline: "#7c2d12" }, // Orange barriers
+    pylon: { front: "#fb923c", top: "#fed7aa", outline: "#9a3412" }, // Traffic cones
+  },
+  stripeColor: "#f8fafc",
+};
+
+/**
+ * Validates obstacle rendering parameters
+ */
+const validateObstaclesParams = (props: ObstaclesProps): boolean => {
+  const { canvasSize, nbColumns, track } = props;
+
+  if (!canvasSize || canvasSize.width <= 0 || canvasSize.height <= 0) {
+    console.warn("Invalid canvas size for obstacle rendering");
+    return false;
+  }
+
+  if (nbColumns <= 0) {
+    console.warn("Invalid number of columns for obstacles");
+    return false;
+  }
+
+  if (!track) {
+    console.warn("Missing track buffer for obstacles");
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Renders one obstacle standing in the middle of its row
+ */
+const renderObstacle = (
+  context: CanvasRenderingContext2D,
+  obstacle: Obstacle,
+  rowsAhead: number,
+  camera: Camera,
+  roadCurve: RoadCurve,
+  roadElevation: RoadElevation
+): void => {
+  const spec = OBSTACLE_SPECS[obstacle.type];
+  const palette = OBSTACLES_CONFIG.colors[obstacle.type];
+
+  // Footprint matches the collision width, centered on the covered lanes
+  const centerLane = obstacle.x + spec.span / 2;
+  const halfWidth = spec.hitWidth / 2;
+
+  const left = projectRoadPoint(camera, centerLane - halfWidth, rowsAhead, roadCurve, roadElevation);
+  const right = projectRoadPoint(camera, centerLane + halfWidth, rowsAhead, roadCurve, roadElevation);
+  // Height is given in lanes, like the footprint
+  const top = projectRoadPoint(camera, centerLane, rowsAhead, roadCurve, roadElevation, spec.height * WORLD_UNITS.LANE_WIDTH);
+  if (!left || !right || !top) return;
+
+  const { x: leftX, y: bottomY, scale: perspectiveScale } = left;
+  const rightX = right.x;
+  if (rightX - leftX < OBSTACLES_CONFIG.minScreenWidth) return;
+
+  const topY = top.y;
+  const scaledHeight = bottomY - topY;
+  const screenCenterX = (leftX + rightX) / 2;
+
+  context.save();
+
+  try {
+    context.strokeStyle = palette.outline;
+    context.lineWidth = Math.max(0.5, perspectiveScale * 2);
+
+    if (obstacle.type === 'pylon') {
+      // Cone
+      context.beginPath();
+      context.moveTo(screenCenterX, topY);
+      context.lineTo(rightX, bottomY);
+      context.lineTo(leftX, bottomY);
+      context.closePath();
+
+      const gradient = context.createLinearGradient(screenCenterX, topY, screenCenterX, bottomY);
+      gradient.addColorStop(0, palette.top);
+      gradient.addColorStop(1, palette.front);
+      context.fillStyle = gradient;
+      context.fill();
+      context.stroke();
+      return;
+    }
+
+    // Box: front face plus a thin lit top face for depth
+    const topDepth = scaledHeight * 0.25;
+    context.beginPath();
+    context.moveTo(leftX, topY);
+    context.lineTo(rightX, topY);
+    context.lineTo(rightX - (rightX - screenCenterX) * 0.1, topY - topDepth);
+    context.lineTo(leftX + (screenCenterX - leftX) * 0.1, topY - topDepth);
+    context.closePath();
+    context.fillStyle = palette.top;
+    context.fill();
+    context.stroke();
+
+    context.fillStyle = palette.front;
+    context.fillRect(leftX, topY, rightX - leftX, bottomY - topY);
+    context.strokeRect(leftX, topY, rightX - leftX, bottomY - topY);
+
+    // Warning stripes on barriers when close enough to read
+    if (obstacle.type === 'barrier' && perspectiveScale > 0.3) {
+      const stripeCount = 4;
+      const stripeWidth = (rightX - leftX) / (stripeCount * 2);
+      context.fillStyle = OBSTACLES_CONFIG.stripeColor;
+      for (let i = 0; i < stripeCount; i++) {
+        context.fillRect(leftX + (i * 2 + 0.5) * stripeWidth, topY, stripeWidth, bottomY - topY);
+      }
+    }
+
+  } catch (error) {
+    console.error("Error rendering obstacle:", error);
+  } finally {
+    context.restore();
+  }
+};
+
+/**
+ * Renders the obstacles on visible rows, far to near so closer ones overlap farther ones
+ */
+export default function Obstacles({
+  context,
+  canvasSize,
+  camera,
+  rowProgress,
+  currentYLoop,
+  nbColumns,
+  track,
+  roadCurve = STRAIGHT_ROAD,
+  roadElevation = FLAT_ROAD,
+}: ObstaclesProps) {
+  try {
+    if (!validateObstaclesParams({ context, canvasSize, camera, rowProgress, currentYLoop, nbColumns, track })) {
+      return null;
+    }
+
+    const { width } = canvasSize;
+    const centerLane = nbColumns / 2;
+
+    const lastVisibleRow = Math.min(
+      track.getEndRowY() - 1,
+      currentYLoop + Math.ceil(camera.getDrawDistance() + rowProgress)
+    );
+
+    // Crests hide whatever stands behind them: each row is only visible above the road edges in front of it
+    // (edges outside the camera's planes hide nothing)
+    const occlusionLines = getRowOcclusionLines(
+      Array.from({ length: Math.max(0, lastVisibleRow - currentYLoop + 1) }, (_, index) =>
+        projectRoadPoint(camera, centerLane, index - rowProgress, roadCurve, roadElevation)?.y ?? Infinity
+      )
+    );
+
+    for (let rowY = lastVisibleRow; rowY >= currentYLoop; rowY--) {
+      const obstacles = track.getObstacles(rowY);
+      if (obstacles.length === 0) continue;
+
+      // Stand in the middle of the row's tile
+      const rowsAhead = rowY - currentYLoop - rowProgress + 0.5;
+      const base = projectRoadPoint(camera, centerLane, rowsAhead, roadCurve, roadElevation);
+      if (!base) continue;
+
+      const visibleAboveY = occlusionLines[rowY - currentYLoop];
+      context.save();
+      try {
+        if (base.y > visibleAboveY) {
+          context.beginPath();
+          context.rect(0, 0, width, visibleAboveY);
+          context.clip();
+        }
+
+        obstacles.forEach((obstacle) => {
+          if (obstacle.x < 0 || obstacle.x + OBSTACLE_SPECS[obstacle.type].span > nbColumns) {
+            console.warn(`Invalid obstacle x coordinate: ${obstacle.x}`);
+            return;
+          }
+          renderObstacle(context, obstacle, rowsAhead, camera, roadCurve, roadElevation);
+        });
+      } finally {
+        context.restore();
+      }
+    }
+
+  } catch (error) {
+    console.error("Obstacles rendering failed:", error);
+  }
+
+  return null;
+}
@@ -1,33 +1,30 @@
-import { 
-  transformPerspective, 
-  createRacingPerspectiveConfig,
-  calculatePerspectiveScale 
-} from "../utils/perspective";
+import type { RoadProjectionTable } from "../utils/RoadProjectionTable";
 import { LODSystem } from "../utils/LODSystem";
+import { rowsToPixels } from "../utils/worldUnits";
+import type { TrackBuffer } from "../utils/TrackBuffer";
+import type { TileCoordinate } from "../utils/CollisionDetection";
+import type { TileKind } from "../utils/tileKinds";
 
 interface PathProps {
   context: CanvasRenderingContext2D;
   canvasSize: { width: number; height: number };
-  currentOffsetY: number;
+  projection: RoadProjectionTable; // This frame's road projection, bends and hills included
+  rowProgress: number; // How far the ship is into its row (0-1)
   currentYLoop: number;
   nbColumns: number;
-  tilesCoordinates: { x: number; y: number }[];
+  track: TrackBuffer;
   frameTime?: number; // For LOD adaptive quality
 }
 
-interface TileCoordinate {
-  x: number;
-  y: number;
+interface TilePalette {
+  primary: string;
+  secondary: string;
+  border: string;
 }
 
 interface PathConfig {
-  tileSpacing: number; // Height spacing between tiles as ratio of canvas height
-  cullingMargin: number; // Margin for off-screen culling
-  colors: {
-    primary: string;
-    secondary: string;
-    border: string;
-  };
+  colors: TilePalette;
+  kindColors: Record<Exclude<TileKind, 'normal'>, TilePalette & { marking: string }>;
   visualEffects: {
     enableGradient: boolean;
     enableBorder: boolean;
@@ -37,13 +34,18 @@ interface PathConfig {
 
 // Path configuration constants
 const PATH_CONFIG: PathConfig = {
-  tileSpacing: 0.08, // Match Game.tsx spacing for better visibility
-  cullingMargin: 300, // Increased significantly for LOD system
   colors: {
     primary: "#4f8df7", // Brighter blue
     secondary: "#2563eb", // Dark blue  
     border: "#1e40af", // Very dark blue
   },
+  kindColors: {
+    boost: { primary: "#facc15", secondary: "#f59e0b", border: "#b45309", marking: "#fff7d6" }, // Amber pads
+    slow: { primary: "#a855f7", secondary: "#7e22ce", border: "#581c87", marking: "#e9d5ff" }, // Purple zones
+    ice: { primary: "#a5f3fc", secondary: "#67e8f9", border: "#0e7490", marking: "#ffffff" }, // Pale cyan
+    crumbling: { primary: "#a16207", secondary: "#854d0e", border: "#422006", marking: "#1c1917" }, // Cracked earth
+    coin: { primary: "#4f8df7", secondary: "#2563eb", border: "#1e40af", marking: "#fde047" }, // Regular tile with a gold coin
+  },
   visualEffects: {
     enableGradient: true,
     enableBorder: true,
@@ -63,7 +65,7 @@ const lodSystem = new LODSystem({
  * Validates path rendering parameters
  */
 const validatePathParams = (props: PathProps): boolean => {
-  const { canvasSize, nbColumns, tilesCoordinates } = props;
+  const { canvasSize, nbColumns, track } = props;
   
   if (!canvasSize || canvasSize.width <= 0 || canvasSize.height <= 0) {
     console.warn("Invalid canvas size for path rendering");
@@ -75,8 +77,8 @@ const validatePathParams = (props: PathProps): boolean => {
     return false;
   }
   
-  if (!Array.isArray(tilesCoordinates)) {
-    console.warn("Invalid tiles coordinates array");
+  if (!track) {
+    console.warn("Missing track buffer for path");
     return false;
   }
   
@@ -84,22 +86,78 @@ const validatePathParams = (props: PathProps): boolean => {
 };
 
 /**
- * Checks if a tile is within the visible area (with culling margin)
+ * Resolves the color palette for a tile's kind
  */
-const isTileVisible = (lineY: number, height: number, margin: number = PATH_CONFIG.cullingMargin): boolean => {
-  return lineY <= height + margin && lineY >= -margin;
+const getTilePalette = (tile: TileCoordinate): TilePalette => {
+  if (!tile.kind || tile.kind === 'normal') return PATH_CONFIG.colors;
+  return PATH_CONFIG.kindColors[tile.kind];
 };
 
 /**
- * Calculates the screen Y position for a tile
+ * Draws the marking that identifies a special tile kind (chevron, bars, sheen, cracks)
  */
-const calculateTileScreenY = (
-  tileY: number,
-  currentYLoop: number,
-  currentOffsetY: number,
-  canvasHeight: number
-): number => {
-  return canvasHeight - (tileY - currentYLoop) * PATH_CONFIG.tileSpacing * canvasHeight + currentOffsetY;
+const drawTileMarking = (
+  context: CanvasRenderingContext2D,
+  kind: Exclude<TileKind, 'normal'>,
+  nearLeft: [number, number],
+  nearRight: [number, number],
+  farRight: [number, number],
+  farLeft: [number, number],
+  scale: number
+): void => {
+  // Bilinear point inside the projected quad: u across the lane, v from near to far edge
+  const at = (u: number, v: number): [number, number] => {
+    const nearX = nearLeft[0] + (nearRight[0] - nearLeft[0]) * u;
+    const nearY = nearLeft[1] + (nearRight[1] - nearLeft[1]) * u;
+    const farX = farLeft[0] + (farRight[0] - farLeft[0]) * u;
+    const farY = farLeft[1] + (farRight[1] - farLeft[1]) * u;
+    return [nearX + (farX - nearX) * v, nearY + (farY - nearY) * v];
+  };
+
+  context.strokeStyle = PATH_CONFIG.kindColors[kind].marking;
+  context.lineWidth = Math.max(0.5, scale * 3);
+  context.beginPath();
+
+  switch (kind) {
+    case 'boost': {
+      // Forward-pointing chevron
+      context.moveTo(...at(0.25, 0.2));
+      context.lineTo(...at(0.5, 0.8));
+      context.lineTo(...at(0.75, 0.2));
+      break;
+    }
+    case 'slow': {
+      // Rumble bars across the lane
+      [0.3, 0.7].forEach((v) => {
+        context.moveTo(...at(0.15, v));
+        context.lineTo(...at(0.85, v));
+      });
+      break;
+    }
+    case 'ice': {
+      // Diagonal sheen
+      context.moveTo(...at(0.2, 0.2));
+      context.lineTo(...at(0.6, 0.8));
+      break;
+    }
+    case 'crumbling': {
+      // Zig-zag crack
+      context.moveTo(...at(0.3, 0.1));
+      context.lineTo(...at(0.55, 0.4));
+      context.lineTo(...at(0.4, 0.6));
+      context.lineTo(...at(0.7, 0.9));
+      break;
+    }
+    case 'coin': {
+      // Gold ring lying in the middle of the tile
+      const [centerX, centerY] = at(0.5, 0.5);
+      const radius = Math.abs(nearRight[0] - nearLeft[0]) * 0.18;
+      context.ellipse(centerX, centerY, radius, radius * 0.6, 0, 0, Math.PI * 2);
+      break;
+    }
+  }
+
+  context.stroke();
 };
 
 /**
@@ -109,55 +167,31 @@ const renderTile = (
   context: CanvasRenderingContext2D,
   tile: TileCoordinate,
   tileIndex: number,
-  spacingX: number,
-  lineY: number,
-  perspectivePointX: number,
-  perspectivePointY: number,
-  height: number
+  rowsAhead: number,
+  distance: number,
+  projection: RoadProjectionTable
 ): void => {
   try {
     const { x } = tile;
-    const tileHeight = PATH_CONFIG.tileSpacing * height;
-    
-    // Calculate perspective scale and distance for this tile
-    const z = Math.max(0, height - lineY);
-    const perspectiveScale = calculatePerspectiveScale(z, height * 0.8);
-    const distance = z; // Use z as distance for LOD calculations
     
     // Get LOD parameters for this distance
     const renderParams = lodSystem.getTileRenderParams(distance);
     if (!renderParams.shouldRender) return;
 
-    // Apply perspective transformation to tile corners with LOD simplification
+    // Look up tile corners in the frame's projection table with LOD simplification
     const simplification = renderParams.simplification;
-    const [x1, y1] = transformPerspective(
-      x * spacingX,
-      lineY,
-      perspectivePointX,
-      perspectivePointY,
-      height
-    );
-    const [x2, y2] = transformPerspective(
-      (x + 1) * spacingX,
-      lineY,
-      perspectivePointX,
-      perspectivePointY,
-      height
-    );
-    const [x3, y3] = transformPerspective(
-      (x + 1) * spacingX,
-      lineY - tileHeight * simplification,
-      perspectivePointX,
-      perspectivePointY,
-      height
-    );
-    const [x4, y4] = transformPerspective(
-      x * spacingX,
-      lineY - tileHeight * simplification,
-      perspectivePointX,
-      perspectivePointY,
-      height
-    );
+    const farRowsAhead = rowsAhead + simplification;
+    if (!projection.isVisible(rowsAhead) || !projection.isVisible(farRowsAhead)) return;
+
+    const x1 = projection.getX(x, rowsAhead);
+    const x2 = projection.getX(x + 1, rowsAhead);
+    const x3 = projection.getX(x + 1, farRowsAhead);
+    const x4 = projection.getX(x, farRowsAhead);
+    const y1 = projection.getY(rowsAhead);
+    const y2 = y1;
+    const y3 = projection.getY(farRowsAhead);
+    const y4 = y3;
+    const perspectiveScale = projection.getScale(rowsAhead);
 
     // Skip rendering if tile is too small or deformed
     const tileArea = Math.abs((x2 - x1) * (y1 - y4));
@@ -165,8 +199,11 @@ const renderTile = (
 
     context.save();
     
-    // Apply LOD-based alpha for atmospheric fading
-    context.globalAlpha = renderParams.alpha;
+    // Apply LOD-based alpha for atmospheric fading; crumbling tiles fade out as they collapse
+    const crumbleFade = tile.crumbleProgress !== undefined ? 1 - tile.crumbleProgress * 0.8 : 1;
+    const tileAlpha = renderParams.alpha * crumbleFade;
+    context.globalAlpha = tileAlpha;
+    const palette = getTilePalette(tile);
     
     // Create tile path
     context.beginPath();
@@ -181,22 +218,22 @@ const renderTile = (
       // Create gradient effect for depth
       const gradient = context.createLinearGradient(x1, y1, x4, y4);
       const primaryColor = PATH_CONFIG.visualEffects.alternatingPattern && tileIndex % 2 === 0
-        ? PATH_CONFIG.colors.secondary
-        : PATH_CONFIG.colors.primary;
+        ? palette.secondary
+        : palette.primary;
       
       gradient.addColorStop(0, primaryColor);
-      gradient.addColorStop(1, PATH_CONFIG.colors.secondary);
+      gradient.addColorStop(1, palette.secondary);
       context.fillStyle = gradient;
     } else {
       // Simple color fill for distant tiles
       const baseColor = PATH_CONFIG.visualEffects.alternatingPattern && tileIndex % 2 === 0
-        ? PATH_CONFIG.colors.secondary
-        : PATH_CONFIG.colors.primary;
+        ? palette.secondary
+        : palette.primary;
       
-      // Apply atmospheric fog effect for distant tiles
-      if (distance > 800) {
+      // Apply atmospheric fog effect for distant tiles (special kinds keep their color readable)
+      if (distance > 800 && (!tile.kind || tile.kind === 'normal')) {
         const fogAmount = Math.min((distance - 800) / 400, 0.6);
-        context.fillStyle = `rgba(100, 120, 150, ${(1 - fogAmount) * renderParams.alpha})`;
+        context.fillStyle = `rgba(100, 120, 150, ${(1 - fogAmount) * tileAlpha})`;
       } else {
         context.fillStyle = baseColor;
       }
@@ -206,12 +243,17 @@ const renderTile = (
 
     // Add border if enabled by LOD and tile is large enough
     if (PATH_CONFIG.visualEffects.enableBorder && renderParams.lod.renderBorders && perspectiveScale > 0.05) {
-      context.strokeStyle = PATH_CONFIG.colors.border;
+      context.strokeStyle = palette.border;
       context.lineWidth = Math.max(0.3, perspectiveScale * 2 * simplification);
-      context.globalAlpha = renderParams.alpha * 0.8;
+      context.globalAlpha = tileAlpha * 0.8;
       context.stroke();
     }
 
+    // Kind markings on near tiles so effects can be read at a glance
+    if (tile.kind && tile.kind !== 'normal' && renderParams.lod.renderBorders) {
+      drawTileMarking(context, tile.kind, [x1, y1], [x2, y2], [x3, y3], [x4, y4], perspectiveScale);
+    }
+
   } catch (error) {
     console.error("Error rendering tile:", error);
   } finally {
@@ -225,10 +267,11 @@ const renderTile = (
 export default function Path({
   context,
   canvasSize,
-  currentOffsetY,
+  projection,
+  rowProgress,
   currentYLoop,
   nbColumns,
-  tilesCoordinates,
+  track,
   frameTime = 16.67
 }: PathProps) {
   try {
@@ -236,72 +279,88 @@ export default function Path({
     lodSystem.update(16.67, frameTime);
 
     // Validate parameters
-    if (!validatePathParams({ context, canvasSize, currentOffsetY, currentYLoop, nbColumns, tilesCoordinates })) {
+    if (!validatePathParams({ context, canvasSize, projection, rowProgress, currentYLoop, nbColumns, track })) {
       return null;
     }
 
     const { width, height } = canvasSize;
-    
-    // Prevent division by zero
-    if (nbColumns === 0) {
-      console.error("Cannot render path: nbColumns is zero");
-      return null;
-    }
-    
-    // Create perspective configuration
-    const perspectiveConfig = createRacingPerspectiveConfig(width, height);
-    const perspectivePointX = perspectiveConfig.vanishingPointX;
-    const perspectivePointY = perspectiveConfig.vanishingPointY;
-    const spacingX = width / nbColumns;
 
     // Track performance metrics in development
     let tilesRendered = 0;
     let tilesCulled = 0;
     let tilesLODCulled = 0;
 
+    // Only visit rows from the ship forward; rows past the camera's far plane are culled in bulk
+    const lastVisibleRow = currentYLoop + Math.ceil(projection.getDrawDistance() + rowProgress);
+
+    // Rows are visited near to far, so the highest road edge seen so far is where crests start hiding the road
+    let occlusionY = Infinity;
+
     // Optimized rendering loop with early exit for off-screen tiles and LOD culling
-    tilesCoordinates.forEach((tile, index) => {
-      try {
-        const lineY = calculateTileScreenY(tile.y, currentYLoop, currentOffsetY, height);
-        
-        // Early exit for off-screen tiles (culling optimization)
-        if (!isTileVisible(lineY, height)) {
-          tilesCulled++;
-          return;
-        }
+    track.forEachRow(currentYLoop, lastVisibleRow + 1, (rowTiles, rowY) => {
+      const rowsAhead = rowY - currentYLoop - rowProgress;
 
-        // Calculate distance for LOD culling
-        const z = Math.max(0, height - lineY);
-        if (!lodSystem.shouldRender(z)) {
-          tilesLODCulled++;
-          return;
-        }
+      // Early exit for rows outside the camera's near and far planes (culling optimization)
+      if (!projection.isVisible(rowsAhead) || !projection.isVisible(rowsAhead + 1)) return;
 
-        // Validate tile coordinates
-        if (tile.x < 0 || tile.x >= nbColumns) {
-          console.warn(`Invalid tile x coordinate: ${tile.x}`);
-          return;
+      // Occlusion by hills: the ground counts even where the row has no tiles
+      const nearScreenY = projection.getY(rowsAhead);
+      const farScreenY = projection.getY(rowsAhead + 1);
+      const visibleAboveY = occlusionY;
+      occlusionY = Math.min(occlusionY, nearScreenY, farScreenY);
+
+      // Skip rows entirely behind a crest, and the far side of a slope that faces away from the camera
+      if (farScreenY >= visibleAboveY || farScreenY > nearScreenY) return;
+
+      // Calculate distance for LOD culling, in the pixels the LOD thresholds are tuned for
+      const distance = rowsToPixels(rowsAhead, height);
+      if (!lodSystem.shouldRender(distance)) {
+        tilesLODCulled += rowTiles.length;
+        return;
+      }
+
+      // Rows partly hidden by a crest are clipped to the part above it
+      const isPartlyHidden = nearScreenY > visibleAboveY + 0.5;
+      if (isPartlyHidden) {
+        context.save();
+        context.beginPath();
+        context.rect(0, 0, width, visibleAboveY);
+        context.clip();
+      }
+
+      rowTiles.forEach((tile) => {
+        try {
+          // Validate tile coordinates
+          if (tile.x < 0 || tile.x >= nbColumns) {
+            console.warn(`Invalid tile x coordinate: ${tile.x}`);
+            return;
+          }
+
+          // Render the tile with LOD optimizations (checkerboard index for the alternating pattern)
+          renderTile(
+            context,
+            tile,
+            tile.x + tile.y,
+            rowsAhead,
+            distance,
+            projection
+          );
+          
+          tilesRendered++;
+          
+        } catch (tileError) {
+          console.error(`Error processing tile ${tile.x},${tile.y}:`, tileError);
         }
+      });
 
-        // Render the tile with LOD optimizations
-        renderTile(
-          context,
-          tile,
-          index,
-          spacingX,
-          lineY,
-          perspectivePointX,
-          perspectivePointY,
-          height
-        );
-        
-        tilesRendered++;
-        
-      } catch (tileError) {
-        console.error(`Error processing tile ${index}:`, tileError);
+      if (isPartlyHidden) {
+        context.restore();
       }
     });
 
+    // Everything buffered but not drawn or LOD-culled was culled as off-screen
+    tilesCulled = Math.max(0, track.getTileCount() - tilesRendered - tilesLODCulled);
+
     // Log performance metrics in development
     if (process.env.NODE_ENV === 'development' && tilesRendered > 0) {
       const totalTiles = tilesRendered + tilesCulled + tilesLODCulled;
@@ -1,23 +1,26 @@
-import { 
-  transformPerspective, 
-  scaleObjectSize, 
-  createRacingPerspectiveConfig,
-  calculatePerspectiveScale 
-} from "../utils/perspective";
+import { STRAIGHT_ROAD } from "../utils/perspective";
+import type { RoadCurve } from "../utils/perspective";
+import type { RoadProjectionTable } from "../utils/RoadProjectionTable";
+import { WORLD_UNITS } from "../utils/worldUnits";
 
 interface ShipProps {
   canvasContext: CanvasRenderingContext2D;
   canvasSize: { width: number; height: number };
+  projection: RoadProjectionTable; // This frame's road projection; the ship follows its bends and hills
   shipPosition: number;
   nbColumns: number;
   color?: string;
-  z?: number; // Distance from viewer for perspective scaling
+  opacity?: number; // Fades out as the camera moves into the cockpit
+  roadCurve?: RoadCurve; // Bend of the road under the ship; it leans into the turn
+  altitude?: number; // Rows above the road while jumping; a shadow stays on the road below
 }
 
 interface ShipConfig {
-  bottomOffset: number;
-  height: number;
+  tailRow: number; // Rows ahead of the ship's position where its tail sits
+  length: number; // Rows from tail to nose
   widthRatio: number; // Ratio of lane width to use
+  curveLean: number; // Sideways nose shift in the sharpest bend, as a ratio of ship width
+  shadowOpacity: number; // Shadow opacity just above the road; it fades and shrinks as the ship climbs
   colors: {
     body: string;
     highlight: string;
@@ -27,9 +30,11 @@ interface ShipConfig {
 
 // Ship configuration constants
 const SHIP_CONFIG: ShipConfig = {
-  bottomOffset: 15,
-  height: 25,
+  tailRow: 0.35,
+  length: 0.6,
   widthRatio: 0.6, // Use 60% of lane width for better visibility
+  curveLean: 0.35,
+  shadowOpacity: 0.45,
   colors: {
     body: "#3b82f6", // Brighter blue
     highlight: "#93c5fd", // Light blue
@@ -74,71 +79,61 @@ const clampToCanvas = (value: number, min: number, max: number): number => {
 export default function Ship({
   canvasContext,
   canvasSize,
+  projection,
   shipPosition,
   nbColumns,
   color = SHIP_CONFIG.colors.body,
-  z = 0,
+  opacity = 1,
+  roadCurve = STRAIGHT_ROAD,
+  altitude = 0,
 }: ShipProps) {
   try {
     // Validate parameters
-    if (!validateShipParams({ canvasContext, canvasSize, shipPosition, nbColumns })) {
+    if (!validateShipParams({ canvasContext, canvasSize, projection, shipPosition, nbColumns })) {
+      return null;
+    }
+
+    // Nothing to draw when the camera sits inside the ship
+    if (opacity <= 0) {
       return null;
     }
 
     const { width, height } = canvasSize;
     
-    // Create perspective configuration
-    const perspectiveConfig = createRacingPerspectiveConfig(width, height);
-    const perspectivePointX = perspectiveConfig.vanishingPointX;
-    const perspectivePointY = perspectiveConfig.vanishingPointY;
-    
     // Prevent division by zero
     if (nbColumns === 0) {
       console.error("Cannot render ship: nbColumns is zero");
       return null;
     }
     
-    const spacingX = width / nbColumns;
-    
-    // Calculate perspective scale for size adjustments
-    const perspectiveScale = calculatePerspectiveScale(z, height * 0.8);
-    const scaledHeight = scaleObjectSize(SHIP_CONFIG.height, z, height * 0.8);
-    
-    // Calculate ship boundaries with perspective scaling
-    const shipBottomY = height - SHIP_CONFIG.bottomOffset;
-    const shipTopY = shipBottomY - scaledHeight;
-    const shipWidth = spacingX * SHIP_CONFIG.widthRatio * perspectiveScale;
-    const shipCenterX = (shipPosition + 0.5) * spacingX;
-    const shipLeftX = shipCenterX - shipWidth / 2;
-    const shipRightX = shipCenterX + shipWidth / 2;
-
-    // Apply perspective transformation with error handling
+    // Ship footprint on the road, in lanes and rows
+    const halfWidth = SHIP_CONFIG.widthRatio / 2;
+    const shipCenter = shipPosition + 0.5;
+    const noseRow = SHIP_CONFIG.tailRow + SHIP_CONFIG.length;
+    const bendRatio = Math.max(-1, Math.min(1, roadCurve.shipCurve / WORLD_UNITS.MAX_CURVE));
+    const noseLane = shipCenter + bendRatio * SHIP_CONFIG.widthRatio * SHIP_CONFIG.curveLean;
+
+    // Look up the footprint in the frame's projection table with error handling
     let leftX1: number, bottomY1: number;
     let rightX1: number, bottomY2: number;
     let topX: number, topY: number;
+    let perspectiveScale: number;
+    let tailLift: number, noseLift: number;
 
     try {
-      [leftX1, bottomY1] = transformPerspective(
-        shipLeftX,
-        shipBottomY,
-        perspectivePointX,
-        perspectivePointY,
-        height
-      );
-      [rightX1, bottomY2] = transformPerspective(
-        shipRightX,
-        shipBottomY,
-        perspectivePointX,
-        perspectivePointY,
-        height
-      );
-      [topX, topY] = transformPerspective(
-        shipCenterX,
-        shipTopY,
-        perspectivePointX,
-        perspectivePointY,
-        height
-      );
+      if (!projection.isVisible(SHIP_CONFIG.tailRow) || !projection.isVisible(noseRow)) {
+        return null;
+      }
+
+      leftX1 = projection.getX(shipCenter - halfWidth, SHIP_CONFIG.tailRow);
+      rightX1 = projection.getX(shipCenter + halfWidth, SHIP_CONFIG.tailRow);
+      bottomY1 = projection.getY(SHIP_CONFIG.tailRow);
+      bottomY2 = bottomY1;
+      perspectiveScale = projection.getScale(SHIP_CONFIG.tailRow);
+      topX = projection.getX(noseLane, noseRow);
+      topY = projection.getY(noseRow);
+      tailLift = projection.getLift(SHIP_CONFIG.tailRow, altitude);
+      noseLift = projection.getLift(noseRow, altitude);
     } catch (error) {
       console.error("Error in perspective transformation:", error);
       return null;
@@ -162,6 +157,16 @@ export default function Ship({
     canvasContext.save();
     
     try {
+      canvasContext.globalAlpha = Math.min(1, opacity);
+
+      // Shadow on the road, then the body lifted above it
+      if (altitude > 0) {
+        drawShadow(canvasContext, topX, topY, leftX1, rightX1, bottomY1, altitude);
+      }
+      topY -= noseLift;
+      bottomY1 -= tailLift;
+      bottomY2 -= tailLift;
+
       // Main ship body
       canvasContext.beginPath();
       canvasContext.moveTo(topX, topY);
@@ -201,6 +206,44 @@ export default function Ship({
   return null;
 }
 
+/**
+ * Draws the ship's shadow on the road: smaller and fainter the higher the ship flies
+ */
+const drawShadow = (
+  ctx: CanvasRenderingContext2D,
+  topX: number,
+  topY: number,
+  leftX: number,
+  rightX: number,
+  bottomY: number,
+  altitude: number
+): void => {
+  try {
+    ctx.save();
+
+    const shrink = 1 / (1 + altitude * 0.4);
+    const centerX = (topX + leftX + rightX) / 3;
+    const centerY = (topY + bottomY * 2) / 3;
+    const toShadow = (x: number, y: number): [number, number] => [
+      centerX + (x - centerX) * shrink,
+      centerY + (y - centerY) * shrink,
+    ];
+
+    ctx.globalAlpha *= SHIP_CONFIG.shadowOpacity * shrink;
+    ctx.fillStyle = "#000000";
+    ctx.beginPath();
+    ctx.moveTo(...toShadow(topX, topY));
+    ctx.lineTo(...toShadow(leftX, bottomY));
+    ctx.lineTo(...toShadow(rightX, bottomY));
+    ctx.closePath();
+    ctx.fill();
+  } catch (error) {
+    console.error("Error drawing ship shadow:", error);
+  } finally {
+    ctx.restore();
+  }
+};
+
 /**
  * Draws additional ship details when the ship is large enough
  */
@@ -220,7 +263,7 @@ const drawShipDetails = (
     // Center line
     ctx.strokeStyle = SHIP_CONFIG.colors.highlight;
     ctx.lineWidth = Math.max(0.5, scale);
-    ctx.globalAlpha = 0.8;
+    ctx.globalAlpha *= 0.8; // On top of the ship's fade
     
     ctx.beginPath();
     ctx.moveTo(topX, topY);
@@ -1,23 +1,22 @@
-import { 
-  transformPerspective, 
-  createRacingPerspectiveConfig,
-  calculatePerspectiveScale 
-} from "../utils/perspective";
+import type { RoadProjectionTable } from "../utils/RoadProjectionTable";
 
 interface TrackProps {
   context: CanvasRenderingContext2D;
   canvasSize: { width: number; height: number };
+  projection: RoadProjectionTable; // This frame's road projection, bends and hills included
   nbColumns: number;
   showBackground?: boolean;
   showGridLines?: boolean;
   showCenterLine?: boolean;
   gameSpeed?: number;
   scrollOffset?: number;
+  horizonPan?: number; // Sideways background pan in pixels, built up while driving through bends
 }
 
 interface ParallaxLayer {
   name: string;
   scrollSpeed: number;
+  panSpeed: number; // Share of the horizon pan applied to this layer (nearer layers pan more)
   depth: number;
   opacity: number;
   color: string;
@@ -42,6 +41,7 @@ interface TrackConfig {
     enableDashPattern: boolean;
     enablePerspectiveScaling: boolean;
   };
+  surfaceWidthRatio: number; // Share of the lanes covered by the track surface
 }
 
 // Track configuration constants
@@ -63,6 +63,7 @@ const TRACK_CONFIG: TrackConfig = {
     enableDashPattern: true,
     enablePerspectiveScaling: true,
   },
+  surfaceWidthRatio: 0.8,
 };
 
 // Parallax background layers configuration
@@ -70,6 +71,7 @@ const PARALLAX_LAYERS: ParallaxLayer[] = [
   {
     name: 'distant_stars',
     scrollSpeed: 0.05,
+    panSpeed: 0.1,
     depth: 1000,
     opacity: 0.4,
     color: '#ffffff',
@@ -78,6 +80,7 @@ const PARALLAX_LAYERS: ParallaxLayer[] = [
   {
     name: 'nebula',
     scrollSpeed: 0.1,
+    panSpeed: 0.25,
     depth: 800,
     opacity: 0.3,
     color: '#4a5568',
@@ -86,6 +89,7 @@ const PARALLAX_LAYERS: ParallaxLayer[] = [
   {
     name: 'distant_mountains',
     scrollSpeed: 0.2,
+    panSpeed: 0.5,
     depth: 600,
     opacity: 0.6,
     color: '#2d3748',
@@ -94,6 +98,7 @@ const PARALLAX_LAYERS: ParallaxLayer[] = [
   {
     name: 'atmosphere',
     scrollSpeed: 0.4,
+    panSpeed: 0,
     depth: 400,
     opacity: 0.2,
     color: '#1a365d',
@@ -128,7 +133,8 @@ const drawParallaxBackground = (
   width: number,
   height: number,
   gameSpeed: number = 1,
-  scrollOffset: number = 0
+  scrollOffset: number = 0,
+  horizonPan: number = 0
 ): void => {
   try {
     // Draw base background first
@@ -142,7 +148,7 @@ const drawParallaxBackground = (
 
     // Render each parallax layer
     PARALLAX_LAYERS.forEach(layer => {
-      drawParallaxLayer(context, layer, width, height, gameSpeed, scrollOffset);
+      drawParallaxLayer(context, layer, width, height, gameSpeed, scrollOffset, horizonPan);
     });
     
   } catch (error) {
@@ -159,23 +165,25 @@ const drawParallaxLayer = (
   width: number,
   height: number,
   gameSpeed: number,
-  scrollOffset: number
+  scrollOffset: number,
+  horizonPan: number
 ): void => {
   try {
     context.save();
     context.globalAlpha = layer.opacity;
     
     const layerOffset = (scrollOffset * layer.scrollSpeed * gameSpeed) % height;
+    const layerPan = horizonPan * layer.panSpeed;
     
     switch (layer.pattern) {
       case 'stars':
-        drawStarField(context, width, height, layerOffset, layer.color);
+        drawStarField(context, width, height, layerOffset, layer.color, layerPan);
         break;
       case 'clouds':
-        drawCloudLayer(context, width, height, layerOffset, layer.color);
+        drawCloudLayer(context, width, height, layerOffset, layer.color, layerPan);
         break;
       case 'mountains':
-        drawMountainSilhouette(context, width, height, layerOffset, layer.color);
+        drawMountainSilhouette(context, width, height, layerOffset, layer.color, layerPan);
         break;
       default:
         // Simple color layer
@@ -191,6 +199,13 @@ const drawParallaxLayer = (
   }
 };
 
+/**
+ * Wraps a value into [0, size)
+ */
+const wrap = (value: number, size: number): number => {
+  return ((value % size) + size) % size;
+};
+
 /**
  * Draws animated star field
  */
@@ -199,14 +214,15 @@ const drawStarField = (
   width: number,
   height: number,
   offset: number,
-  color: string
+  color: string,
+  pan: number
 ): void => {
   context.fillStyle = color;
   
   // Generate consistent star positions using simple hash
   for (let i = 0; i < 100; i++) {
     const seed = i * 73856093;
-    const x = (seed % width);
+    const x = wrap(seed % width + pan, width);
     const y = ((seed * 19349663) % (height * 2) + offset) % (height * 2);
     
     if (y < height && y > 0) {
@@ -228,14 +244,15 @@ const drawCloudLayer = (
   width: number,
   height: number,
   offset: number,
-  color: string
+  color: string,
+  pan: number
 ): void => {
   context.fillStyle = color;
   
   // Draw soft cloud shapes
   for (let i = 0; i < 20; i++) {
     const seed = i * 127773;
-    const x = (seed % (width + 200)) - 100;
+    const x = wrap(seed % (width + 200) + pan, width + 200) - 100;
     const y = ((seed * 16777619) % (height * 3) + offset) % (height * 3);
     
     if (y < height * 0.6 && y > -50) {
@@ -257,26 +274,30 @@ const drawMountainSilhouette = (
   width: number,
   height: number,
   offset: number,
-  color: string
+  color: string,
+  pan: number
 ): void => {
   context.fillStyle = color;
   
-  // Draw mountain peaks
+  // Draw mountain peaks; panning slides the range sideways and brings in new peaks at the edge
   const peakCount = 8;
+  const peakSpacing = width / peakCount;
   const baseY = height * 0.4;
+  const panPeaks = Math.floor(pan / peakSpacing);
+  const panShift = pan - panPeaks * peakSpacing;
+  const peakY = (i: number) => baseY - (40 + Math.sin((i - panPeaks) * 0.7 + offset * 0.01) * 30);
   
   context.beginPath();
-  context.moveTo(0, baseY);
+  context.moveTo(-peakSpacing + panShift, baseY);
   
-  for (let i = 0; i <= peakCount; i++) {
-    const x = (i / peakCount) * width;
-    const peakHeight = 40 + Math.sin(i * 0.7 + offset * 0.01) * 30;
-    const y = baseY - peakHeight;
+  for (let i = -1; i <= peakCount; i++) {
+    const x = i * peakSpacing + panShift;
+    const y = peakY(i);
     
-    if (i === 0) {
+    if (i === -1) {
       context.lineTo(x, y);
     } else {
-      const prevX = ((i - 1) / peakCount) * width;
+      const prevX = x - peakSpacing;
       const midX = (prevX + x) / 2;
       context.quadraticCurveTo(prevX, baseY - 10, midX, y);
       context.quadraticCurveTo(midX, y, x, y);
@@ -286,65 +307,97 @@ const drawMountainSilhouette = (
   context.lineTo(width, baseY);
   context.lineTo(width, height);
   context.lineTo(0, height);
+  context.lineTo(0, baseY);
   context.closePath();
   context.fill();
 };
 
 
+/**
+ * Projects a line running along the road (constant lane position) as a polyline that follows its bends and hills,
+ * one point per projection table sample from behind the ship to the camera's far plane
+ */
+const projectRoadLine = (lane: number, projection: RoadProjectionTable): [number, number][] => {
+  const points: [number, number][] = [];
+  
+  for (let index = 0; index < projection.getSampleCount(); index++) {
+    if (projection.isSampleVisible(index)) {
+      points.push([projection.getSampleX(index, lane), projection.getSampleY(index)]);
+    }
+  }
+  
+  return points;
+};
+
+/**
+ * Flattens the parts of a road line hidden behind a crest onto the crest, for filled shapes
+ */
+const clampToCrest = (points: [number, number][]): [number, number][] => {
+  let highest = Infinity;
+  return points.map(([x, y]) => {
+    highest = Math.min(highest, y);
+    return [x, highest];
+  });
+};
+
+/**
+ * Adds a polyline to the current path
+ */
+const tracePolyline = (context: CanvasRenderingContext2D, points: [number, number][], moveToFirst: boolean = true): void => {
+  points.forEach(([x, y], index) => {
+    if (index === 0 && moveToFirst) {
+      context.moveTo(x, y);
+    } else {
+      context.lineTo(x, y);
+    }
+  });
+};
+
+/**
+ * Adds a near-to-far road line to the current path, leaving out the stretches hidden behind crests
+ */
+const traceVisibleRoadLine = (context: CanvasRenderingContext2D, points: [number, number][]): void => {
+  let highest = Infinity;
+  let drawing = false;
+  points.forEach(([x, y]) => {
+    const visible = y <= highest + 0.5;
+    highest = Math.min(highest, y);
+    if (visible && drawing) {
+      context.lineTo(x, y);
+    } else if (visible) {
+      context.moveTo(x, y);
+    }
+    drawing = visible;
+  });
+};
+
 /**
  * Draws the main track surface
  */
 const drawTrackSurface = (
   context: CanvasRenderingContext2D,
-  width: number,
-  height: number,
-  perspectivePointX: number,
-  perspectivePointY: number
+  nbColumns: number,
+  projection: RoadProjectionTable
 ): void => {
   try {
     context.save();
     
-    // Calculate track boundaries with perspective
-    const trackWidth = width * 0.8; // Track takes 80% of canvas width
-    const leftBoundary = (width - trackWidth) / 2;
-    const rightBoundary = width - leftBoundary;
+    // Calculate track boundaries in lanes
+    const trackWidth = nbColumns * TRACK_CONFIG.surfaceWidthRatio;
+    const leftBoundary = (nbColumns - trackWidth) / 2;
+    const rightBoundary = nbColumns - leftBoundary;
     
-    // Transform track boundaries with perspective
-    const [leftFar, topY] = transformPerspective(
-      leftBoundary,
-      0,
-      perspectivePointX,
-      perspectivePointY,
-      height
-    );
-    const [rightFar] = transformPerspective(
-      rightBoundary,
-      0,
-      perspectivePointX,
-      perspectivePointY,
-      height
-    );
-    const [leftNear, bottomY] = transformPerspective(
-      leftBoundary,
-      height,
-      perspectivePointX,
-      perspectivePointY,
-      height
-    );
-    const [rightNear] = transformPerspective(
-      rightBoundary,
-      height,
-      perspectivePointX,
-      perspectivePointY,
-      height
-    );
+    // Project track edges through the camera, following the road's bends and cut off at crests
+    const leftEdge = clampToCrest(projectRoadLine(leftBoundary, projection));
+    const rightEdge = clampToCrest(projectRoadLine(rightBoundary, projection));
+    if (leftEdge.length === 0 || rightEdge.length === 0) return;
+    const bottomY = leftEdge[0][1];
+    const topY = Math.min(...leftEdge.map(([, y]) => y));
     
     // Draw track surface
     context.beginPath();
-    context.moveTo(leftFar, topY);
-    context.lineTo(rightFar, topY);
-    context.lineTo(rightNear, bottomY);
-    context.lineTo(leftNear, bottomY);
+    tracePolyline(context, leftEdge);
+    tracePolyline(context, rightEdge.reverse(), false);
     context.closePath();
     
     if (TRACK_CONFIG.effects.enableGradient) {
@@ -373,47 +426,31 @@ const drawGridLines = (
   width: number,
   height: number,
   nbColumns: number,
-  perspectivePointX: number,
-  perspectivePointY: number
+  projection: RoadProjectionTable
 ): void => {
   try {
     context.save();
     context.strokeStyle = TRACK_CONFIG.colors.gridLines;
     
-    const spacingX = width / nbColumns;
+    // Line width follows the perspective scale halfway to the far plane
+    const scale = TRACK_CONFIG.effects.enablePerspectiveScaling 
+      ? projection.getScale(projection.getDrawDistance() / 2)
+      : 1;
     
-    // Draw vertical grid lines
+    // Draw lane grid lines along the road
     for (let i = 0; i <= nbColumns; i++) {
-      const lineX = i * spacingX;
-      
-      // Calculate perspective scale for line width
-      const scale = TRACK_CONFIG.effects.enablePerspectiveScaling 
-        ? calculatePerspectiveScale(height * 0.5, height * 0.8)
-        : 1;
-      
       context.lineWidth = TRACK_CONFIG.lineWidths.grid * scale;
       
       try {
-        const [x1, y1] = transformPerspective(
-          lineX,
-          height,
-          perspectivePointX,
-          perspectivePointY,
-          height
-        );
-        const [x2, y2] = transformPerspective(
-          lineX,
-          0,
-          perspectivePointX,
-          perspectivePointY,
-          height
-        );
+        const points = projectRoadLine(i, projection);
+        if (points.length === 0) continue;
+        const [x1, y1] = points[0];
+        const [x2, y2] = points[points.length - 1];
         
         // Only draw lines that are within reasonable bounds
         if (Math.abs(x1 - x2) < width && Math.abs(y1 - y2) < height * 2) {
           context.beginPath();
-          context.moveTo(x1, y1);
-          context.lineTo(x2, y2);
+          traceVisibleRoadLine(context, points);
           context.stroke();
         }
         
@@ -434,10 +471,8 @@ const drawGridLines = (
  */
 const drawCenterLine = (
   context: CanvasRenderingContext2D,
-  width: number,
-  height: number,
-  perspectivePointX: number,
-  perspectivePointY: number
+  nbColumns: number,
+  projection: RoadProjectionTable
 ): void => {
   try {
     context.save();
@@ -449,27 +484,13 @@ const drawCenterLine = (
     }
     
     // Draw center line
-    const centerX = width / 2;
+    const centerLane = nbColumns / 2;
     
     try {
-      const [x1, y1] = transformPerspective(
-        centerX,
-        height,
-        perspectivePointX,
-        perspectivePointY,
-        height
-      );
-      const [x2, y2] = transformPerspective(
-        centerX,
-        0,
-        perspectivePointX,
-        perspectivePointY,
-        height
-      );
+      const points = projectRoadLine(centerLane, projection);
       
       context.beginPath();
-      context.moveTo(x1, y1);
-      context.lineTo(x2, y2);
+      traceVisibleRoadLine(context, points);
       context.stroke();
       
     } catch (transformError) {
@@ -489,16 +510,18 @@ const drawCenterLine = (
 export default function Track({ 
   context, 
   canvasSize, 
+  projection,
   nbColumns,
   showBackground = true,
   showGridLines = true,
   showCenterLine = true,
   gameSpeed = 1,
-  scrollOffset = 0
+  scrollOffset = 0,
+  horizonPan = 0
 }: TrackProps) {
   try {
     // Validate parameters
-    if (!validateTrackParams({ context, canvasSize, nbColumns })) {
+    if (!validateTrackParams({ context, canvasSize, projection, nbColumns })) {
       return null;
     }
 
@@ -510,27 +533,22 @@ export default function Track({
       return null;
     }
     
-    // Create perspective configuration
-    const perspectiveConfig = createRacingPerspectiveConfig(width, height);
-    const perspectivePointX = perspectiveConfig.vanishingPointX;
-    const perspectivePointY = perspectiveConfig.vanishingPointY;
-
     // Draw track layers in order (background to foreground)
     if (showBackground) {
-      drawParallaxBackground(context, width, height, gameSpeed, scrollOffset);
+      drawParallaxBackground(context, width, height, gameSpeed, scrollOffset, horizonPan);
     }
     
     // Draw track surface
-    drawTrackSurface(context, width, height, perspectivePointX, perspectivePointY);
+    drawTrackSurface(context, nbColumns, projection);
     
     // Draw grid lines
     if (showGridLines) {
-      drawGridLines(context, width, height, nbColumns, perspectivePointX, perspectivePointY);
+      drawGridLines(context, width, height, nbColumns, projection);
     }
     
     // Draw center line
     if (showCenterLine) {
-      drawCenterLine(context, width, height, perspectivePointX, perspectivePointY);
+      drawCenterLine(context, nbColumns, projection);
     }
 
   } catch (error) {
@@ -0,0 +1,486 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState, useCallback } from "react";
+import Game from "./Game";
+import {
+  createEmptyLevelFile,
+  formatLevelIssue,
+  loadLevel,
+  serializeLevel,
+  validateLevel,
+} from "../utils/levelFormat";
+import type { Level, LevelFile, LevelIssue, LevelMeta, LevelRowData } from "../utils/levelFormat";
+import { TILE_KINDS } from "../utils/tileKinds";
+import type { TileKind } from "../utils/tileKinds";
+import { OBSTACLE_SPECS, OBSTACLE_TYPES, obstacleCoversLane } from "../utils/obstacles";
+import type { ObstacleType } from "../utils/obstacles";
+import { WORLD_UNITS } from "../utils/worldUnits";
+
+type Brush =
+  | { tool: 'tile'; kind: TileKind }
+  | { tool: 'obstacle'; type: ObstacleType }
+  | { tool: 'erase' };
+
+// Editor constants
+const EDITOR_CONFIG = {
+  STORAGE_KEY: "perspective-racer:editor-draft",
+  DEFAULT_ROWS: 40,
+  ROWS_PER_ADD: 10,
+  CELL_SIZE: 28, // Grid cell size in pixels
+  kindColors: {
+    normal: "#3b82f6",
+    boost: "#facc15",
+    slow: "#a855f7",
+    ice: "#a5f3fc",
+    crumbling: "#a16207",
+    coin: "#fde047",
+  } as Record<TileKind, string>,
+  obstacleColors: {
+    block: "#dc2626",
+    barrier: "#f97316",
+    pylon: "#fb923c",
+  } as Record<ObstacleType, string>,
+  curveSteps: [-3, -2, -1, 0, 1, 2, 3], // Bend choices per row, in thirds of WORLD_UNITS.MAX_CURVE
+  elevationStep: 0.5, // Height choices per row go from -MAX_ELEVATION to MAX_ELEVATION in these steps
+} as const;
+
+const ELEVATION_CHOICES = Array.from(
+  { length: Math.round((WORLD_UNITS.MAX_ELEVATION * 2) / EDITOR_CONFIG.elevationStep) + 1 },
+  (_, index) => index * EDITOR_CONFIG.elevationStep - WORLD_UNITS.MAX_ELEVATION
+);
+
+/**
+ * Label for a bend choice: arrows point the way the road turns
+ */
+const getCurveLabel = (step: number): string => {
+  if (step === 0) return "│";
+  return (step < 0 ? "◀" : "▶").repeat(Math.abs(step));
+};
+
+/**
+ * Metadata of a stored draft with every field of the wrong type (or missing) replaced by the default
+ * Values of the right type are kept even when out of range (e.g. a blank name), since the editor shows and fixes those
+ */
+const repairDraftMeta = (meta: unknown): LevelMeta => {
+  const defaults = createEmptyLevelFile(0).meta;
+  const fields = typeof meta === "object" && meta !== null ? (meta as Record<string, unknown>) : {};
+  return {
+    name: typeof fields.name === "string" ? fields.name : defaults.name,
+    author: typeof fields.author === "string" ? fields.author : defaults.author,
+    parTime: typeof fields.parTime === "number" && Number.isFinite(fields.parTime) ? fields.parTime : defaults.parTime,
+    ...(typeof fields.description === "string" ? { description: fields.description } : {}),
+  };
+};
+
+/**
+ * Reads the saved draft, if any, falling back to a blank course
+ * The draft gets the same structural checks as an import; only out-of-range metadata and reachability problems are let
+ * through, and metadata of the wrong type falls back to the defaults
+ */
+const loadDraft = (): LevelFile => {
+  try {
+    const saved = window.localStorage.getItem(EDITOR_CONFIG.STORAGE_KEY);
+    if (saved) {
+      const parsed: unknown = JSON.parse(saved);
+      if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+        const draft = { ...parsed, meta: repairDraftMeta((parsed as Record<string, unknown>).meta) };
+        const blockingErrors = validateLevel(draft).errors.filter(
+          (issue) => issue.category !== 'reachability' && !issue.path.startsWith('meta.')
+        );
+        if (blockingErrors.length === 0) {
+          return draft as LevelFile;
+        }
+        console.warn(`Discarding editor draft: ${formatLevelIssue(blockingErrors[0])}`);
+      }
+    }
+  } catch (error) {
+    console.error("Error loading editor draft:", error);
+  }
+  return createEmptyLevelFile(EDITOR_CONFIG.DEFAULT_ROWS);
+};
+
+/**
+ * Returns a copy of the row with the brush applied to one lane
+ */
+const paintRow = (row: LevelRowData, lane: number, brush: Brush): LevelRowData => {
+  const lanes = row.lanes.filter((candidate) => candidate !== lane);
+  const kinds = { ...(row.kinds ?? {}) };
+  delete kinds[String(lane)];
+  let obstacles = (row.obstacles ?? []).filter(
+    (obstacle) => !obstacleCoversLane({ x: obstacle.lane, y: 0, type: obstacle.type }, lane)
+  );
+
+  if (brush.tool === 'tile') {
+    lanes.push(lane);
+    if (brush.kind !== 'normal') kinds[String(lane)] = brush.kind;
+  } else if (brush.tool === 'obstacle') {
+    // Obstacles stand on tiles: lay tiles under every lane the obstacle covers
+    const span = OBSTACLE_SPECS[brush.type].span;
+    for (let offset = 0; offset < span; offset++) {
+      if (!lanes.includes(lane + offset)) lanes.push(lane + offset);
+    }
+    obstacles = obstacles.filter((obstacle) => obstacle.lane < lane || obstacle.lane >= lane + span);
+    obstacles.push({ lane, type: brush.type });
+  }
+
+  const painted: LevelRowData = { lanes: lanes.sort((a, b) => a - b) };
+  if (Object.keys(kinds).length > 0) painted.kinds = kinds;
+  if (obstacles.length > 0) painted.obstacles = obstacles;
+  if (row.curve) painted.curve = row.curve;
+  if (row.elevation) painted.elevation = row.elevation;
+  return painted;
+};
+
+/**
+ * Grid editor for hand-authored courses, with validation, export and a test drive
+ */
+const TrackEditor: React.FC = () => {
+  const [draft, setDraft] = useState<LevelFile>(() => createEmptyLevelFile(EDITOR_CONFIG.DEFAULT_ROWS));
+  const [hasLoadedDraft, setHasLoadedDraft] = useState(false);
+  const [brush, setBrush] = useState<Brush>({ tool: 'tile', kind: 'normal' });
+  const [startRow, setStartRow] = useState(0);
+  const [testLevel, setTestLevel] = useState<Level | null>(null);
+  const [testErrors, setTestErrors] = useState<LevelIssue[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const isPaintingRef = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Restore the draft after mount (localStorage is not available during server rendering)
+  useEffect(() => {
+    setDraft(loadDraft());
+    setHasLoadedDraft(true);
+  }, []);
+
+  // Persist every change
+  useEffect(() => {
+    if (!hasLoadedDraft) return;
+    try {
+      window.localStorage.setItem(EDITOR_CONFIG.STORAGE_KEY, JSON.stringify(draft));
+    } catch (error) {
+      console.error("Error saving editor draft:", error);
+    }
+  }, [draft, hasLoadedDraft]);
+
+  // Stop painting when the mouse is released anywhere
+  useEffect(() => {
+    const stopPainting = () => {
+      isPaintingRef.current = false;
+    };
+    window.addEventListener("mouseup", stopPainting);
+    return () => window.removeEventListener("mouseup", stopPainting);
+  }, []);
+
+  const validation = useMemo(() => validateLevel(draft), [draft]);
+  const rowsWithErrors = useMemo(
+    () => new Set(validation.errors.map((issue) => issue.row).filter((row): row is number => row !== null)),
+    [validation]
+  );
+
+  const paintCell = useCallback((rowIndex: number, lane: number) => {
+    setDraft((previous) => {
+      if (brush.tool === 'obstacle' && lane + OBSTACLE_SPECS[brush.type].span > previous.nbColumns) {
+        return previous;
+      }
+      const rows = previous.rows.slice();
+      rows[rowIndex] = paintRow(rows[rowIndex], lane, brush);
+      return { ...previous, rows };
+    });
+  }, [brush]);
+
+  // Bend and height are optional per-row numbers, left out of the file when zero
+  const setRowShape = useCallback((rowIndex: number, field: 'curve' | 'elevation', value: number) => {
+    setDraft((previous) => {
+      const rows = previous.rows.slice();
+      const row = { ...rows[rowIndex] };
+      if (value !== 0) {
+        row[field] = value;
+      } else {
+        delete row[field];
+      }
+      rows[rowIndex] = row;
+      return { ...previous, rows };
+    });
+  }, []);
+
+  const updateMeta = useCallback((changes: Partial<LevelFile['meta']>) => {
+    setDraft((previous) => ({ ...previous, meta: { ...previous.meta, ...changes } }));
+  }, []);
+
+  const addRows = useCallback(() => {
+    setDraft((previous) => {
+      const last = previous.rows[previous.rows.length - 1];
+      const extra = Array.from({ length: EDITOR_CONFIG.ROWS_PER_ADD }, (): LevelRowData => {
+        const row: LevelRowData = { lanes: last ? [...last.lanes] : [] };
+        if (last?.elevation) row.elevation = last.elevation; // Carry on at the same height
+        return row;
+      });
+      return { ...previous, rows: [...previous.rows, ...extra] };
+    });
+  }, []);
+
+  const removeRow = useCallback(() => {
+    setDraft((previous) => previous.rows.length > 1 ? { ...previous, rows: previous.rows.slice(0, -1) } : previous);
+    setStartRow((row) => Math.max(0, Math.min(row, draft.rows.length - 2)));
+  }, [draft.rows.length]);
+
+  const resetDraft = useCallback(() => {
+    if (!window.confirm("Discard this course and start a new one?")) return;
+    setDraft(createEmptyLevelFile(EDITOR_CONFIG.DEFAULT_ROWS));
+    setStartRow(0);
+  }, []);
+
+  // Launch the perspective view on the course, starting from the selected row
+  const startTestDrive = useCallback(() => {
+    const result = loadLevel({ ...draft, rows: draft.rows.slice(startRow) });
+    if (result.ok) {
+      setTestErrors([]);
+      setTestLevel(result.level);
+    } else {
+      // Report rows against the full course, not the slice
+      setTestErrors(result.errors.map((issue) => issue.row !== null ? { ...issue, row: issue.row + startRow } : issue));
+    }
+  }, [draft, startRow]);
+
+  const exportLevel = useCallback(() => {
+    try {
+      const blob = new Blob([serializeLevel(draft)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      const slug = draft.meta.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+      link.href = url;
+      link.download = `${slug || "course"}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting level:", error);
+    }
+  }, [draft]);
+
+  const importLevel = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const result = loadLevel(text);
+      const blockingErrors = result.ok ? [] : result.errors.filter((issue) => issue.category !== 'reachability');
+      if (blockingErrors.length > 0) {
+        setImportError(formatLevelIssue(blockingErrors[0]));
+        return;
+      }
+      // Reachability problems are fine in a draft; they stay listed until fixed
+      setDraft(JSON.parse(text) as LevelFile);
+      setStartRow(0);
+      setImportError(null);
+    } catch (error) {
+      console.error("Error importing level:", error);
+      setImportError("Could not read that file");
+    }
+  }, []);
+
+  const brushes: { brush: Brush; label: string; color: string }[] = [
+    ...TILE_KINDS.map((kind) => ({ brush: { tool: 'tile', kind } as Brush, label: kind, color: EDITOR_CONFIG.kindColors[kind] })),
+    ...OBSTACLE_TYPES.map((type) => ({ brush: { tool: 'obstacle', type } as Brush, label: type, color: EDITOR_CONFIG.obstacleColors[type] })),
+    { brush: { tool: 'erase' }, label: "erase", color: "#111827" },
+  ];
+  const isActiveBrush = (candidate: Brush) => JSON.stringify(candidate) === JSON.stringify(brush);
+
+  if (testLevel) {
+    return (
+      <div className="relative">
+        <Game key={startRow} showShip={true} level={testLevel} />
+        <button
+          onClick={() => setTestLevel(null)}
+          className="absolute bottom-4 right-4 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white rounded-lg"
+        >
+          Back to Editor
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6 p-4 text-white">
+      {/* Course grid: row 1 at the bottom, like the view from the ship */}
+      <div
+        className="overflow-y-auto bg-gray-950 rounded-lg p-2 select-none"
+        style={{ maxHeight: "70vh" }}
+        onMouseLeave={() => { isPaintingRef.current = false; }}
+      >
+        {draft.rows.map((row, rowIndex) => ({ row, rowIndex })).reverse().map(({ row, rowIndex }) => (
+          <div key={rowIndex} className="flex items-center">
+            <button
+              onClick={() => setStartRow(rowIndex)}
+              title="Test drive from this row"
+              className={`w-12 text-right pr-2 text-xs font-mono ${
+                rowIndex === startRow ? "text-green-400 font-bold" :
+                rowsWithErrors.has(rowIndex + 1) ? "text-red-400" : "text-gray-500"
+              }`}
+            >
+              {rowIndex === startRow ? "▶" : ""}{rowIndex + 1}
+            </button>
+            {Array.from({ length: draft.nbColumns }, (_, lane) => {
+              const kind = row.lanes.includes(lane) ? (row.kinds?.[String(lane)] ?? 'normal') : null;
+              const obstacle = row.obstacles?.find((entry) => entry.lane === lane);
+              return (
+                <div
+                  key={lane}
+                  onMouseDown={() => { isPaintingRef.current = true; paintCell(rowIndex, lane); }}
+                  onMouseEnter={() => { if (isPaintingRef.current) paintCell(rowIndex, lane); }}
+                  className="relative border border-gray-800 cursor-crosshair"
+                  style={{
+                    width: EDITOR_CONFIG.CELL_SIZE,
+                    height: EDITOR_CONFIG.CELL_SIZE,
+                    backgroundColor: kind ? EDITOR_CONFIG.kindColors[kind] : "transparent",
+                  }}
+                >
+                  {obstacle && (
+                    <div
+                      className="absolute rounded-sm pointer-events-none z-10"
+                      style={{
+                        left: EDITOR_CONFIG.CELL_SIZE * 0.2,
+                        top: EDITOR_CONFIG.CELL_SIZE * 0.25,
+                        width: EDITOR_CONFIG.CELL_SIZE * (OBSTACLE_SPECS[obstacle.type].span - 0.4),
+                        height: EDITOR_CONFIG.CELL_SIZE * 0.5,
+                        backgroundColor: EDITOR_CONFIG.obstacleColors[obstacle.type],
+                      }}
+                    />
+                  )}
+                </div>
+              );
+            })}
+            <select
+              value={Math.round(((row.curve ?? 0) / WORLD_UNITS.MAX_CURVE) * 3)}
+              onChange={(event) => setRowShape(
+                rowIndex, 'curve', Number(((Number(event.target.value) / 3) * WORLD_UNITS.MAX_CURVE).toFixed(4))
+              )}
+              title="Road bend"
+              className="ml-1 w-14 bg-gray-900 text-gray-400 text-xs rounded"
+            >
+              {EDITOR_CONFIG.curveSteps.map((step) => (
+                <option key={step} value={step}>{getCurveLabel(step)}</option>
+              ))}
+            </select>
+            <select
+              value={Math.round((row.elevation ?? 0) / EDITOR_CONFIG.elevationStep) * EDITOR_CONFIG.elevationStep}
+              onChange={(event) => setRowShape(rowIndex, 'elevation', Number(event.target.value))}
+              title="Road height"
+              className="ml-1 w-14 bg-gray-900 text-gray-400 text-xs rounded"
+            >
+              {ELEVATION_CHOICES.map((elevation) => (
+                <option key={elevation} value={elevation}>{elevation > 0 ? `+${elevation}` : elevation}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {/* Tools */}
+      <div className="flex-1 space-y-5">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <label className="text-sm">
+            Name
+            <input
+              value={draft.meta.name}
+              onChange={(event) => updateMeta({ name: event.target.value })}
+              className="mt-1 w-full bg-gray-800 rounded px-2 py-1"
+            />
+          </label>
+          <label className="text-sm">
+            Author
+            <input
+              value={draft.meta.author}
+              onChange={(event) => updateMeta({ author: event.target.value })}
+              className="mt-1 w-full bg-gray-800 rounded px-2 py-1"
+            />
+          </label>
+          <label className="text-sm">
+            Par time (s)
+            <input
+              type="number"
+              min={1}
+              value={draft.meta.parTime}
+              onChange={(event) => updateMeta({ parTime: Number(event.target.value) })}
+              className="mt-1 w-full bg-gray-800 rounded px-2 py-1"
+            />
+          </label>
+        </div>
+
+        <div>
+          <h3 className="text-sm text-gray-400 mb-2">Brush</h3>
+          <div className="flex flex-wrap gap-2">
+            {brushes.map(({ brush: candidate, label, color }) => (
+              <button
+                key={label}
+                onClick={() => setBrush(candidate)}
+                className={`px-3 py-1 rounded text-sm capitalize border-2 ${
+                  isActiveBrush(candidate) ? "border-white" : "border-transparent"
+                }`}
+                style={{ backgroundColor: color, color: label === "erase" ? "#fff" : "#111" }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button onClick={addRows} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded">
+            + {EDITOR_CONFIG.ROWS_PER_ADD} rows
+          </button>
+          <button onClick={removeRow} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded">
+            − Last row
+          </button>
+          <span className="px-3 py-2 text-gray-400">{draft.rows.length} rows</span>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={startTestDrive}
+            className="px-4 py-2 bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 rounded-lg font-bold"
+          >
+            Test Drive from Row {startRow + 1}
+          </button>
+          <button onClick={exportLevel} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg">
+            Export JSON
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg">
+            Import JSON
+          </button>
+          <button onClick={resetDraft} className="px-4 py-2 bg-red-800 hover:bg-red-700 rounded-lg">
+            New Course
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={importLevel} className="hidden" />
+        </div>
+
+        {importError && <p className="text-red-400 text-sm">Import failed: {importError}</p>}
+
+        {/* Validation report */}
+        <div className="bg-gray-900 rounded-lg p-3 text-sm font-mono max-h-60 overflow-y-auto">
+          {validation.errors.length === 0 && validation.warnings.length === 0 && (
+            <p className="text-green-400">Course is valid</p>
+          )}
+          {testErrors.length > 0 && (
+            <p className="text-orange-300 mb-1">Test drive from row {startRow + 1} is blocked:</p>
+          )}
+          {testErrors.map((issue, index) => (
+            <p key={`test-${index}`} className="text-orange-300">{formatLevelIssue(issue)}</p>
+          ))}
+          {validation.errors.map((issue, index) => (
+            <p key={`error-${index}`} className="text-red-400">{formatLevelIssue(issue)}</p>
+          ))}
+          {validation.warnings.map((issue, index) => (
+            <p key={`warning-${index}`} className="text-yellow-400">{formatLevelIssue(issue)}</p>
+          ))}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Click or drag to paint. Pick a bend and a height at the end of a row to curve the road and shape hills. Click a row number to choose where the test drive starts. Drafts are saved in this browser.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TrackEditor;
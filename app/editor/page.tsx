@@ -0,0 +1,41 @@
+"use client";
+
+import TrackEditor from "../components/TrackEditor";
+
+const EditorPage: React.FC = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black flex flex-col items-center p-4">
+      <div className="w-full max-w-6xl">
+        <div className="text-center mb-6">
+          <h1 className="text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-500 mb-2">
+            Track Editor
+          </h1>
+          <p className="text-gray-300 text-lg">
+            Paint a course lane by lane, then take it for a test drive.
+          </p>
+        </div>
+
+        <div className="bg-black rounded-xl shadow-2xl border-4 border-gray-700 overflow-hidden">
+          <TrackEditor />
+        </div>
+
+        <div className="mt-6 flex justify-center space-x-6 text-gray-400">
+          <a 
+            href="/game" 
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition"
+          >
+            Play Endless Mode
+          </a>
+          <a 
+            href="/" 
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition"
+          >
+            Back to Home
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditorPage;
@@ -1,8 +1,25 @@
 "use client";
 
 import Game from "../components/Game";
+import { SeededRandom } from "../utils/SeededRandom";
+import { loadLevel, formatLevelIssue } from "../utils/levelFormat";
+import type { LevelLoadResult } from "../utils/levelFormat";
+import { getBuiltInLevel } from "../levels";
+
+interface GamePageProps {
+  searchParams: { [key: string]: string | string[] | undefined };
+}
+
+const GamePage: React.FC<GamePageProps> = ({ searchParams }) => {
+  // Allow sharing or reproducing a course with /game?seed=8812
+  const seedParam = searchParams.seed;
+  const seed = SeededRandom.parseSeed(Array.isArray(seedParam) ? seedParam[0] : seedParam) ?? undefined;
+
+  // Play a hand-authored course with /game?level=first-steps
+  const levelParam = Array.isArray(searchParams.level) ? searchParams.level[0] : searchParams.level;
+  const levelEntry = levelParam ? getBuiltInLevel(levelParam) : null;
+  const levelResult: LevelLoadResult | null = levelEntry ? loadLevel(levelEntry.data) : null;
 
-const GamePage: React.FC = () => {
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-900 to-black flex flex-col items-center justify-center p-4">
       <div className="w-full max-w-6xl">
@@ -16,11 +33,24 @@ const GamePage: React.FC = () => {
         </div>
 
         <div className="bg-black rounded-xl shadow-2xl border-4 border-gray-700 overflow-hidden">
-          <Game showShip={true} />
+          {levelParam && !levelEntry ? (
+            <div className="p-8 text-red-300">Unknown level &quot;{levelParam}&quot;</div>
+          ) : levelResult && !levelResult.ok ? (
+            <div className="p-8 text-red-300">
+              <h2 className="text-xl font-bold mb-3">This level has errors</h2>
+              <ul className="list-disc list-inside font-mono text-sm">
+                {levelResult.errors.map((issue, index) => (
+                  <li key={index}>{formatLevelIssue(issue)}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <Game showShip={true} seed={seed} level={levelResult?.ok ? levelResult.level : undefined} />
+          )}
         </div>
 
         <div className="mt-6 text-center text-gray-400">
-          <p className="mb-2">Use ← → arrow keys or A/D to steer</p>
+          <p className="mb-2">Use ← → arrow keys or A/D to steer (or point at a lane, tap the screen sides or swipe on a phone, or use a gamepad), Space to jump over gaps, ↑ or W to spend the boost meter, ↓ or S to brake (fewer points while braking), P or Esc to pause, C to switch camera (keys can be rebound in the pause menu)</p>
           <div className="flex justify-center space-x-6">
             <button 
               onClick={() => window.location.reload()} 
@@ -0,0 +1,23 @@
+/**
+ * Built-in levels - Hand-authored courses shipped with the game, playable at /game?level=<id>
+ */
+
+import firstSteps from './first-steps.json';
+import splitDecision from './split-decision.json';
+
+export interface LevelEntry {
+  id: string;
+  data: unknown; // Raw file contents; run through loadLevel before playing
+}
+
+export const BUILT_IN_LEVELS: readonly LevelEntry[] = [
+  { id: 'first-steps', data: firstSteps },
+  { id: 'split-decision', data: splitDecision },
+];
+
+/**
+ * Find a built-in level by id
+ */
+export const getBuiltInLevel = (id: string): LevelEntry | null => {
+  return BUILT_IN_LEVELS.find((entry) => entry.id === id) ?? null;
+};
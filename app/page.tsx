@@ -48,6 +48,12 @@ export default function Home() {
         >
           Start Racing
         </Link>
+        <Link 
+          href="/editor" 
+          className="px-8 py-4 bg-gray-800 hover:bg-gray-700 rounded-xl font-bold text-xl transition text-center"
+        >
+          Track Editor
+        </Link>
         <a 
           href="https://github.com/alexandreg67/my-perspective-game" 
           target="_blank" 
@@ -59,7 +65,7 @@ export default function Home() {
       </div>
 
       <div className="mt-12 text-center text-gray-500">
-        <p>Use ← → arrow keys or A/D to steer | Space to pause | R to restart</p>
+        <p>Use ← → arrow keys or A/D to steer (or point at a lane) | Space to jump gaps | ↑ or W to boost, ↓ or S to brake | P or Esc to pause | R to restart | C to switch camera (keys can be rebound in the pause menu)</p>
       </div>
     </main>
   );
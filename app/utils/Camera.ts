@@ -0,0 +1,300 @@
+/**
+ * Camera for the pseudo-3D view
+ * Projects world coordinates (lanes across the track, rows ahead of the ship, rows of height) to the screen
+ * with a pinhole model: the camera sits behind and above the ship, tilted down, and sees between a near and a far plane
+ * Presets (chase, low, top-down, cockpit) set where it sits; switching between them blends smoothly
+ * Effects (shake, roll, field of view kick) ride on top of the preset without changing it
+ */
+
+import { WORLD_UNITS } from './worldUnits';
+import { NO_CAMERA_EFFECTS } from './CameraEffects';
+import type { CameraEffectsState } from './CameraEffects';
+
+export interface CameraConfig {
+  distance: number; // Rows behind the ship
+  height: number; // Rows above the road under the ship
+  pitch: number; // Downward tilt in radians
+  fieldOfView: number; // Horizontal field of view in radians, on a viewport of the reference shape
+  laneFollow: number; // 0 keeps the track centered, 1 rides along with the ship's lane
+  near: number; // Nearest visible depth, in rows from the camera
+  far: number; // Farthest visible depth, in rows from the camera
+  transitionTime: number; // Seconds to blend from one preset to the next
+}
+
+// Part of the configuration a preset sets, and that blends during a transition
+export type CameraView = Pick<CameraConfig, 'distance' | 'height' | 'pitch' | 'fieldOfView' | 'laneFollow'>;
+
+export type CameraPresetName = 'chase' | 'low' | 'topDown' | 'cockpit';
+
+export interface CameraPreset {
+  label: string;
+  view: CameraView;
+  interior: boolean; // The camera sits inside the ship: the ship is hidden and a dashboard is shown instead
+}
+
+export interface CameraPosition {
+  lane: number; // Across the track, in lanes from its left edge
+  row: number; // Rows ahead of the ship (negative: behind it)
+  height: number; // Rows above the road under the ship
+}
+
+export interface ProjectedPoint {
+  x: number;
+  y: number;
+  depth: number; // Distance along the view direction, in rows
+  scale: number; // Size relative to the same object on the road under the ship in the chase view
+}
+
+// Camera presets, in the order the camera key cycles through them
+export const CAMERA_PRESETS: Record<CameraPresetName, CameraPreset> = {
+  chase: {
+    // Frames all lanes of the endless track, with the horizon at a fifth of the screen height
+    label: 'Chase',
+    view: { distance: 7.4, height: 9, pitch: 0.345, fieldOfView: Math.PI / 2, laneFollow: 0 },
+    interior: false,
+  },
+  low: {
+    // Nearer the road: the horizon drops to a third of the screen, so bends and hills ahead stand out more
+    label: 'Low',
+    view: { distance: 9.5, height: 6, pitch: 0.15, fieldOfView: Math.PI / 2, laneFollow: 0 },
+    interior: false,
+  },
+  topDown: {
+    // Steeply overhead, like a map: no horizon, the most rows in view
+    label: 'Top-down',
+    view: { distance: 3, height: 14, pitch: 0.95, fieldOfView: Math.PI / 2, laneFollow: 0 },
+    interior: false,
+  },
+  cockpit: {
+    // In the ship's seat, riding along with its lane
+    label: 'Cockpit',
+    view: { distance: -0.6, height: 1.2, pitch: 0.08, fieldOfView: 1.75, laneFollow: 1 },
+    interior: true,
+  },
+};
+
+export const CAMERA_PRESET_NAMES = Object.keys(CAMERA_PRESETS) as CameraPresetName[];
+
+// Default camera: the chase view
+const DEFAULT_CONFIG: CameraConfig = {
+  ...CAMERA_PRESETS.chase.view,
+  near: 1,
+  far: 32,
+  transitionTime: 0.8,
+};
+
+// Viewport shape the field of view applies to (1000 x 600); wider viewports are fitted to their height instead
+const REFERENCE_ASPECT = 5 / 3;
+
+// Pixels per row of size at the ship in the chase view on the reference viewport, where objects draw at scale 1
+const REFERENCE_PIXELS_PER_ROW = 50;
+
+export class Camera {
+  private config: CameraConfig;
+  private viewport: { width: number; height: number };
+  private target: { lane: number; height: number } = { lane: WORLD_UNITS.NB_COLUMNS / 2, height: 0 };
+  private shipLane: number = WORLD_UNITS.NB_COLUMNS / 2;
+  private presetName: CameraPresetName = 'chase';
+  private transition: { from: CameraView; fromInterior: number; progress: number } | null = null;
+  private interiorBlend: number = 0;
+  private effects: CameraEffectsState = NO_CAMERA_EFFECTS;
+  private focalLength: number = 0;
+  private cosPitch: number = 1;
+  private sinPitch: number = 0;
+
+  constructor(viewport: { width: number; height: number }, config: Partial<CameraConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.viewport = viewport;
+    this.updateProjection();
+  }
+
+  /**
+   * Update the viewport when the canvas resizes
+   */
+  setViewport(viewport: { width: number; height: number }): void {
+    this.viewport = viewport;
+    this.updateProjection();
+  }
+
+  /**
+   * Update camera configuration
+   */
+  updateConfig(newConfig: Partial<CameraConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    this.updateProjection();
+  }
+
+  /**
+   * Get current camera configuration
+   */
+  getConfig(): CameraConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Switch to a preset, blending from the current view unless immediate
+   */
+  setPreset(name: CameraPresetName, immediate: boolean = false): void {
+    const preset = CAMERA_PRESETS[name];
+    if (!preset) return;
+
+    this.presetName = name;
+    if (immediate || this.config.transitionTime <= 0) {
+      this.transition = null;
+      this.interiorBlend = preset.interior ? 1 : 0;
+      this.updateConfig(preset.view);
+      return;
+    }
+
+    this.transition = { from: this.getView(), fromInterior: this.interiorBlend, progress: 0 };
+  }
+
+  /**
+   * Preset the camera is showing or blending towards
+   */
+  getPreset(): CameraPresetName {
+    return this.presetName;
+  }
+
+  /**
+   * How far the camera is inside the ship (0-1): the ship fades out and the dashboard fades in as it rises
+   */
+  getInteriorBlend(): number {
+    return this.interiorBlend;
+  }
+
+  /**
+   * Advance a preset transition
+   */
+  update(deltaTime: number): void {
+    if (!this.transition) return;
+
+    const preset = CAMERA_PRESETS[this.presetName];
+    const { from, fromInterior } = this.transition;
+    const progress = Math.min(1, this.transition.progress + deltaTime / this.config.transitionTime);
+    const eased = progress * progress * (3 - 2 * progress); // Smoothstep: no jolt at either end
+    const blend = (start: number, end: number) => start + (end - start) * eased;
+
+    this.interiorBlend = blend(fromInterior, preset.interior ? 1 : 0);
+    this.updateConfig({
+      distance: blend(from.distance, preset.view.distance),
+      height: blend(from.height, preset.view.height),
+      pitch: blend(from.pitch, preset.view.pitch),
+      fieldOfView: blend(from.fieldOfView, preset.view.fieldOfView),
+      laneFollow: blend(from.laneFollow, preset.view.laneFollow),
+    });
+    this.transition = progress < 1 ? { ...this.transition, progress } : null;
+  }
+
+  /**
+   * Apply the current shake, roll and field of view kick (see CameraEffects)
+   */
+  setEffects(effects: CameraEffectsState): void {
+    this.effects = effects;
+    this.updateProjection();
+  }
+
+  /**
+   * Shake and roll the canvas for everything drawn through the camera until the caller restores the context
+   * The view is zoomed just enough that the rotated, shifted frame still covers the canvas
+   */
+  applyScreenEffects(context: CanvasRenderingContext2D): void {
+    const { offsetX, offsetY, roll } = this.effects;
+    if (offsetX === 0 && offsetY === 0 && roll === 0) return;
+
+    const { width, height } = this.viewport;
+    const shortSide = Math.max(1, Math.min(width, height));
+    const zoom = Math.cos(Math.abs(roll))
+      + (Math.max(width, height) / shortSide) * Math.sin(Math.abs(roll))
+      + (2 * Math.max(Math.abs(offsetX), Math.abs(offsetY))) / shortSide;
+
+    context.translate(width / 2 + offsetX, height / 2 + offsetY);
+    context.rotate(-roll);
+    context.scale(zoom, zoom);
+    context.translate(-width / 2, -height / 2);
+  }
+
+  /**
+   * Frame a point on the road under the ship: the camera centers on its lane and rides at its height
+   */
+  lookAt(lane: number, height: number = 0): void {
+    this.target = { lane, height };
+    this.updateProjection();
+  }
+
+  /**
+   * Lane the ship is in, followed by views that ride along with it
+   */
+  setShipLane(lane: number): void {
+    this.shipLane = lane;
+  }
+
+  /**
+   * World position of the camera
+   */
+  getPosition(): CameraPosition {
+    return {
+      lane: this.target.lane + (this.shipLane - this.target.lane) * this.config.laneFollow,
+      row: -this.config.distance,
+      height: this.target.height + this.config.height,
+    };
+  }
+
+  /**
+   * Project a world point to the screen, or null when it lies outside the near and far planes
+   */
+  project(lane: number, rowsAhead: number, height: number = 0): ProjectedPoint | null {
+    const point: ProjectedPoint = { x: 0, y: 0, depth: 0, scale: 0 };
+    return this.projectInto(point, lane, rowsAhead, height) ? point : null;
+  }
+
+  /**
+   * Project into an existing point instead of allocating one, for per-frame tables
+   * Returns false, leaving the point untouched, when it lies outside the near and far planes
+   */
+  projectInto(point: ProjectedPoint, lane: number, rowsAhead: number, height: number = 0): boolean {
+    const cameraLane = this.target.lane + (this.shipLane - this.target.lane) * this.config.laneFollow;
+    const sideways = (lane - cameraLane) * WORLD_UNITS.LANE_WIDTH;
+    const up = height - (this.target.height + this.config.height);
+    const forward = rowsAhead + this.config.distance;
+
+    // Rotate into camera space: depth along the view direction, rise along the camera's up axis
+    const depth = forward * this.cosPitch - up * this.sinPitch;
+    if (depth < this.config.near || depth > this.config.far) return false;
+    const rise = forward * this.sinPitch + up * this.cosPitch;
+
+    point.x = this.viewport.width / 2 + (sideways * this.focalLength) / depth;
+    point.y = this.viewport.height / 2 - (rise * this.focalLength) / depth;
+    point.depth = depth;
+    point.scale = this.focalLength / depth / REFERENCE_PIXELS_PER_ROW;
+    return true;
+  }
+
+  /**
+   * Rows ahead of the ship where level road reaches the far plane
+   */
+  getDrawDistance(): number {
+    const { distance, height, far } = this.config;
+    return (far - height * this.sinPitch) / this.cosPitch - distance;
+  }
+
+  /**
+   * Current values of the blended part of the configuration
+   */
+  private getView(): CameraView {
+    const { distance, height, pitch, fieldOfView, laneFollow } = this.config;
+    return { distance, height, pitch, fieldOfView, laneFollow };
+  }
+
+  /**
+   * Recompute the values shared by every projection
+   */
+  private updateProjection(): void {
+    const { width, height } = this.viewport;
+    const fittedWidth = Math.min(width, height * REFERENCE_ASPECT);
+    const fieldOfView = Math.min(Math.PI * 0.9, this.config.fieldOfView + this.effects.fieldOfViewKick);
+    this.focalLength = fittedWidth / 2 / Math.tan(fieldOfView / 2);
+    this.cosPitch = Math.cos(this.config.pitch);
+    this.sinPitch = Math.sin(this.config.pitch);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Camera effects layer
+ * Trauma-based screen shake on collisions, a field of view kick while boosting,
+ * and a roll into lane changes; each scaled by its own intensity and all off when the player prefers reduced motion
+ */
+
+import type { CollisionResult } from './CollisionDetection';
+
+export interface CameraEffectsConfig {
+  maxShakeOffset: number; // Pixels of shake at full trauma
+  maxShakeAngle: number; // Radians of rotational shake at full trauma
+  shakeFrequency: number; // Shake oscillations per second
+  traumaDecay: number; // Trauma lost per second
+  severityTrauma: Record<CollisionResult['severity'], number>; // Trauma a collision of each severity raises the shake to
+  boostFieldOfView: number; // Radians added to the field of view at full boost
+  fieldOfViewRate: number; // How fast the kick eases in and out, per second
+  maxRoll: number; // Radians of roll at full lateral speed
+  rollVelocity: number; // Lateral speed in lanes per second that gives full roll
+  rollRate: number; // How fast the roll follows the ship, per second
+}
+
+export interface CameraEffectIntensity {
+  shake: number; // 0 (off) to 1 (full)
+  fieldOfViewKick: number;
+  roll: number;
+}
+
+export interface CameraEffectsState {
+  offsetX: number; // Screen shake, in pixels
+  offsetY: number;
+  roll: number; // Camera roll in radians, shake included; positive banks right, turning the scene counter-clockwise
+  fieldOfViewKick: number; // Radians added to the camera's field of view
+}
+
+export const NO_CAMERA_EFFECTS: CameraEffectsState = { offsetX: 0, offsetY: 0, roll: 0, fieldOfViewKick: 0 };
+
+export const DEFAULT_EFFECT_INTENSITY: CameraEffectIntensity = { shake: 1, fieldOfViewKick: 1, roll: 1 };
+
+// Default configuration: noticeable on a hit, barely there in normal driving
+const DEFAULT_CONFIG: CameraEffectsConfig = {
+  maxShakeOffset: 14,
+  maxShakeAngle: 0.035,
+  shakeFrequency: 18,
+  traumaDecay: 1.4,
+  severityTrauma: { none: 0, minor: 0.3, major: 0.6, fatal: 1 },
+  boostFieldOfView: 0.18,
+  fieldOfViewRate: 4,
+  maxRoll: 0.04,
+  rollVelocity: 8,
+  rollRate: 6,
+};
+
+export class CameraEffects {
+  private config: CameraEffectsConfig;
+  private intensity: CameraEffectIntensity = { ...DEFAULT_EFFECT_INTENSITY };
+  private reducedMotion: boolean = false;
+  private trauma: number = 0;
+  private time: number = 0;
+  private boostBlend: number = 0; // Eased 0-1 boost state driving the field of view kick
+  private lean: number = 0; // Eased -1 to 1 lateral speed driving the roll
+
+  constructor(config: Partial<CameraEffectsConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Set how strong each effect is (0-1)
+   */
+  setIntensity(intensity: Partial<CameraEffectIntensity>): void {
+    this.intensity = { ...this.intensity, ...intensity };
+  }
+
+  /**
+   * Turn every effect off while the player prefers reduced motion
+   */
+  setReducedMotion(reducedMotion: boolean): void {
+    this.reducedMotion = reducedMotion;
+    if (reducedMotion) {
+      this.reset();
+    }
+  }
+
+  /**
+   * Add trauma; shake grows with its square, so small knocks stay small
+   */
+  addTrauma(amount: number): void {
+    this.trauma = Math.max(0, Math.min(1, this.trauma + amount));
+  }
+
+  /**
+   * Raise trauma to the level a collision of the given severity causes
+   * Collisions repeat every step while the contact lasts, so they hold the shake rather than pile up
+   */
+  addCollisionTrauma(severity: CollisionResult['severity']): void {
+    this.trauma = Math.max(this.trauma, this.config.severityTrauma[severity] ?? 0);
+  }
+
+  /**
+   * Advance the effects
+   * lateralVelocity is the ship's sideways speed in lanes per second (PlayerState.velocity)
+   */
+  update(deltaTime: number, isBoosting: boolean, lateralVelocity: number): void {
+    if (this.reducedMotion) return;
+
+    this.time += deltaTime;
+    this.trauma = Math.max(0, this.trauma - this.config.traumaDecay * deltaTime);
+
+    // Exponential easing towards the targets, independent of frame rate
+    const boostTarget = isBoosting ? 1 : 0;
+    this.boostBlend += (boostTarget - this.boostBlend) * (1 - Math.exp(-this.config.fieldOfViewRate * deltaTime));
+
+    const leanTarget = Math.max(-1, Math.min(1, lateralVelocity / this.config.rollVelocity));
+    this.lean += (leanTarget - this.lean) * (1 - Math.exp(-this.config.rollRate * deltaTime));
+  }
+
+  /**
+   * Current effects, scaled by their intensities
+   */
+  getState(): CameraEffectsState {
+    if (this.reducedMotion) return NO_CAMERA_EFFECTS;
+
+    const shake = this.trauma * this.trauma * this.intensity.shake;
+    const phase = this.time * this.config.shakeFrequency;
+
+    return {
+      offsetX: this.config.maxShakeOffset * shake * this.noise(phase, 1),
+      offsetY: this.config.maxShakeOffset * shake * this.noise(phase, 2),
+      // Bank towards the way the ship is moving
+      roll: this.config.maxRoll * this.lean * this.intensity.roll + this.config.maxShakeAngle * shake * this.noise(phase, 3),
+      fieldOfViewKick: this.config.boostFieldOfView * this.boostBlend * this.intensity.fieldOfViewKick,
+    };
+  }
+
+  /**
+   * Clear trauma and eased values, e.g. on restart
+   */
+  reset(): void {
+    this.trauma = 0;
+    this.boostBlend = 0;
+    this.lean = 0;
+  }
+
+  /**
+   * Smooth noise in [-1, 1]: a sum of sines at unrelated frequencies, one channel per seed
+   */
+  private noise(phase: number, seed: number): number {
+    return (Math.sin(phase * 1.0 + seed * 12.9898) + Math.sin(phase * 2.3 + seed * 78.233) * 0.5) / 1.5;
+  }
+}
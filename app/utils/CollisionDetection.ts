@@ -3,9 +3,25 @@
  * Provides efficient collision detection with configurable parameters
  */
 
+import type { TileKind } from './tileKinds';
+import { OBSTACLE_SPECS, getObstacleCenter } from './obstacles';
+import type { Obstacle } from './obstacles';
+
 export interface TileCoordinate {
   x: number;
   y: number;
+  kind?: TileKind; // Gameplay behaviour of the tile; 'normal' when omitted
+  crumbleProgress?: number; // Runtime only: 0 to 1 once a crumbling tile has been driven on
+}
+
+/**
+ * Row-indexed access to path tiles (implemented by TrackBuffer)
+ */
+export interface TileRowLookup {
+  getRow(y: number): readonly TileCoordinate[];
+  getObstacles(y: number): readonly Obstacle[];
+  isGapRow(y: number): boolean; // Deliberate gap that has to be jumped
+  getTileCount(): number;
 }
 
 export interface CollisionConfig {
@@ -13,14 +29,24 @@ export interface CollisionConfig {
   lookAheadDistance: number; // How far ahead to check for collisions
   collisionMargin: number; // Extra margin for collision detection
   enablePredictiveCollision: boolean; // Check future positions
+  nearMissMargin: number; // Lanes beyond an obstacle's reach that still count as a near miss
 }
 
 export interface CollisionResult {
   hasCollision: boolean;
-  collisionType: 'none' | 'off-track' | 'obstacle' | 'boundary';
+  collisionType: 'none' | 'off-track' | 'obstacle' | 'boundary' | 'gap';
   distance: number; // Distance to collision point
   position: { x: number; y: number }; // Position of collision
   severity: 'none' | 'minor' | 'major' | 'fatal';
+  obstacle?: Obstacle; // Set for 'obstacle' collisions
+}
+
+/**
+ * Contiguous run of tiles on one row; forked rows have several
+ */
+export interface RowSegment {
+  minX: number;
+  maxX: number;
 }
 
 export interface GameBoundaries {
@@ -36,6 +62,26 @@ const DEFAULT_CONFIG: CollisionConfig = {
   lookAheadDistance: 2, // Check 2 tiles ahead
   collisionMargin: 0.1, // 10% margin for collision detection
   enablePredictiveCollision: true,
+  nearMissMargin: 0.5,
+};
+
+/**
+ * Split a row into its contiguous segments, ordered left to right
+ */
+export const getRowSegments = (tiles: readonly TileCoordinate[]): RowSegment[] => {
+  const lanes = Array.from(new Set(tiles.map((tile) => tile.x))).sort((a, b) => a - b);
+  const segments: RowSegment[] = [];
+
+  lanes.forEach((lane) => {
+    const last = segments[segments.length - 1];
+    if (last && lane === last.maxX + 1) {
+      last.maxX = lane;
+    } else {
+      segments.push({ minX: lane, maxX: lane });
+    }
+  });
+
+  return segments;
 };
 
 export class CollisionDetector {
@@ -61,27 +107,48 @@ export class CollisionDetector {
 
   /**
    * Check collision between ship and path tiles
+   * An airborne ship cannot leave the track, so off-track checks are skipped until it lands
    */
   checkPathCollision(
     shipPosition: number,
     shipY: number,
-    pathTiles: TileCoordinate[],
-    currentYLoop: number
+    track: TileRowLookup,
+    currentYLoop: number,
+    isAirborne: boolean = false
   ): CollisionResult {
     try {
+      if (isAirborne) {
+        return {
+          hasCollision: false,
+          collisionType: 'none',
+          distance: 0,
+          position: { x: shipPosition, y: shipY },
+          severity: 'none',
+        };
+      }
+
+      // Driving into a deliberate gap instead of jumping it drops the ship off the track
+      if (track.isGapRow(Math.floor(currentYLoop + shipY))) {
+        return {
+          hasCollision: true,
+          collisionType: 'gap',
+          distance: 0,
+          position: { x: shipPosition, y: shipY },
+          severity: 'major',
+        };
+      }
+
       // Find tiles at current ship position
-      const currentTiles = this.getTilesAtPosition(pathTiles, currentYLoop, shipY);
+      const currentTiles = this.getTilesAtPosition(track, currentYLoop, shipY);
       
       if (currentTiles.length === 0) {
         // Check if this might be a temporary condition during tile generation
         // Look for tiles in nearby Y positions to determine if this is just a gap
-        const nearbyTiles = pathTiles.filter(tile => 
-          Math.abs(tile.y - (currentYLoop + shipY)) <= 2
-        );
+        const nearbyTileCount = this.countNearbyTiles(track, currentYLoop + shipY, 2);
         
-        if (nearbyTiles.length === 0) {
+        if (nearbyTileCount === 0) {
           // No tiles at all - check if this is game startup or actual off-track
-          const totalTileCount = pathTiles.length;
+          const totalTileCount = track.getTileCount();
           const GAME_STARTUP_TILE_THRESHOLD = 5; // Minimum tiles required for reliable collision detection
           
           if (totalTileCount < GAME_STARTUP_TILE_THRESHOLD) {
@@ -137,7 +204,7 @@ export class CollisionDetector {
         const predictiveResult = this.checkPredictiveCollision(
           shipPosition,
           shipY,
-          pathTiles,
+          track,
           currentYLoop
         );
         
@@ -220,14 +287,87 @@ export class CollisionDetector {
     }
   }
 
+  /**
+   * Check collision with obstacles on the ship's current row
+   */
+  checkObstacleCollision(
+    shipPosition: number,
+    shipY: number,
+    track: TileRowLookup,
+    currentYLoop: number
+  ): CollisionResult {
+    try {
+      const rowY = Math.floor(currentYLoop + shipY);
+
+      for (const obstacle of track.getObstacles(rowY)) {
+        const distance = Math.abs(getObstacleCenter(obstacle) - shipPosition);
+        const reach = OBSTACLE_SPECS[obstacle.type].hitWidth / 2 + this.config.collisionMargin;
+
+        if (distance < reach) {
+          return {
+            hasCollision: true,
+            collisionType: 'obstacle',
+            distance,
+            position: { x: obstacle.x, y: obstacle.y },
+            severity: OBSTACLE_SPECS[obstacle.type].severity,
+            obstacle,
+          };
+        }
+      }
+
+      return {
+        hasCollision: false,
+        collisionType: 'none',
+        distance: 0,
+        position: { x: shipPosition, y: shipY },
+        severity: 'none',
+      };
+
+    } catch (error) {
+      console.error('Error checking obstacle collision:', error);
+      return {
+        hasCollision: false,
+        collisionType: 'none',
+        distance: 0,
+        position: { x: shipPosition, y: shipY },
+        severity: 'none',
+      };
+    }
+  }
+
+  /**
+   * Find obstacles on the ship's row that the ship is close to without touching
+   * Whether one was actually missed is only known once the ship has left its row
+   */
+  findNearMisses(
+    shipPosition: number,
+    shipY: number,
+    track: TileRowLookup,
+    currentYLoop: number
+  ): Obstacle[] {
+    try {
+      const rowY = Math.floor(currentYLoop + shipY);
+
+      return track.getObstacles(rowY).filter((obstacle) => {
+        const distance = Math.abs(getObstacleCenter(obstacle) - shipPosition);
+        const reach = OBSTACLE_SPECS[obstacle.type].hitWidth / 2 + this.config.collisionMargin;
+        return distance >= reach && distance < reach + this.config.nearMissMargin;
+      });
+    } catch (error) {
+      console.error('Error finding near misses:', error);
+      return [];
+    }
+  }
+
   /**
    * Get comprehensive collision result combining all checks
    */
   checkAllCollisions(
     shipPosition: number,
     shipY: number,
-    pathTiles: TileCoordinate[],
-    currentYLoop: number
+    track: TileRowLookup,
+    currentYLoop: number,
+    isAirborne: boolean = false
   ): CollisionResult {
     try {
       // Check boundary collision first (most critical)
@@ -236,8 +376,14 @@ export class CollisionDetector {
         return boundaryResult;
       }
 
+      // Check obstacles standing on the ship's row
+      const obstacleResult = this.checkObstacleCollision(shipPosition, shipY, track, currentYLoop);
+      if (obstacleResult.hasCollision) {
+        return obstacleResult;
+      }
+
       // Check path collision
-      const pathResult = this.checkPathCollision(shipPosition, shipY, pathTiles, currentYLoop);
+      const pathResult = this.checkPathCollision(shipPosition, shipY, track, currentYLoop, isAirborne);
       if (pathResult.hasCollision) {
         return pathResult;
       }
@@ -267,31 +413,51 @@ export class CollisionDetector {
    * Get tiles at a specific Y position (considering game loop)
    */
   private getTilesAtPosition(
-    pathTiles: TileCoordinate[],
+    track: TileRowLookup,
     currentYLoop: number,
     shipY: number
-  ): TileCoordinate[] {
-    const targetY = Math.floor(currentYLoop + shipY);
-    return pathTiles.filter(tile => Math.abs(tile.y - targetY) < 1);
+  ): readonly TileCoordinate[] {
+    return track.getRow(Math.floor(currentYLoop + shipY));
   }
 
   /**
-   * Find a valid tile for the ship position
+   * Count tiles on rows within the given distance of a row
    */
-  private findValidTile(tiles: TileCoordinate[], shipPosition: number): TileCoordinate | null {
-    for (const tile of tiles) {
-      const distance = Math.abs(tile.x - shipPosition);
-      if (distance <= this.config.shipTolerance) {
-        return tile;
-      }
+  private countNearbyTiles(track: TileRowLookup, rowY: number, distance: number): number {
+    let count = 0;
+    for (let y = Math.ceil(rowY - distance); y <= Math.floor(rowY + distance); y++) {
+      count += track.getRow(y).length;
     }
-    return null;
+    return count;
+  }
+
+  /**
+   * Find a valid tile for the ship position
+   * The ship is supported anywhere inside a contiguous segment (plus tolerance at its ends),
+   * but not over the gap between two disjoint segments of a forked row
+   */
+  private findValidTile(tiles: readonly TileCoordinate[], shipPosition: number): TileCoordinate | null {
+    const segment = this.findSegmentAt(tiles, shipPosition);
+    if (!segment) return null;
+
+    const inSegment = tiles.filter((tile) => tile.x >= segment.minX && tile.x <= segment.maxX);
+    return this.findNearestTile(inSegment, shipPosition);
+  }
+
+  /**
+   * Find the segment supporting the ship position, if any
+   */
+  private findSegmentAt(tiles: readonly TileCoordinate[], shipPosition: number): RowSegment | null {
+    const tolerance = this.config.shipTolerance;
+    return getRowSegments(tiles).find(
+      (segment) => shipPosition >= segment.minX - tolerance && shipPosition <= segment.maxX + tolerance
+    ) ?? null;
   }
 
   /**
    * Find the nearest tile to the ship position
    */
-  private findNearestTile(tiles: TileCoordinate[], shipPosition: number): TileCoordinate | null {
+  private findNearestTile(tiles: readonly TileCoordinate[], shipPosition: number): TileCoordinate | null {
     if (tiles.length === 0) return null;
 
     let nearestTile = tiles[0];
@@ -314,14 +480,17 @@ export class CollisionDetector {
   private checkPredictiveCollision(
     shipPosition: number,
     shipY: number,
-    pathTiles: TileCoordinate[],
+    track: TileRowLookup,
     currentYLoop: number
   ): CollisionResult {
     try {
       // Look ahead for potential collisions
       for (let ahead = 1; ahead <= this.config.lookAheadDistance; ahead++) {
         const futureY = shipY + ahead;
-        const futureTiles = this.getTilesAtPosition(pathTiles, currentYLoop, futureY);
+        // A gap ahead is a jump to make, not a mistake
+        if (track.isGapRow(Math.floor(currentYLoop + futureY))) continue;
+
+        const futureTiles = this.getTilesAtPosition(track, currentYLoop, futureY);
         
         if (futureTiles.length === 0) {
           return {
@@ -385,34 +554,43 @@ export class CollisionDetector {
   isOnTrack(
     shipPosition: number,
     shipY: number,
-    pathTiles: TileCoordinate[],
+    track: TileRowLookup,
     currentYLoop: number
   ): boolean {
-    const result = this.checkPathCollision(shipPosition, shipY, pathTiles, currentYLoop);
+    const result = this.checkPathCollision(shipPosition, shipY, track, currentYLoop);
     return !result.hasCollision;
   }
 
   /**
-   * Get the safe movement range for the ship
+   * Get the safe movement range for the ship (within its own segment when shipPosition is given)
    */
   getSafeMovementRange(
     shipY: number,
-    pathTiles: TileCoordinate[],
-    currentYLoop: number
+    track: TileRowLookup,
+    currentYLoop: number,
+    shipPosition?: number
   ): { min: number; max: number } {
     try {
-      const currentTiles = this.getTilesAtPosition(pathTiles, currentYLoop, shipY);
+      const currentTiles = this.getTilesAtPosition(track, currentYLoop, shipY);
       
       if (currentTiles.length === 0) {
         return { min: 0, max: this.boundaries.maxX - 1 };
       }
 
-      const minX = Math.min(...currentTiles.map(tile => tile.x));
-      const maxX = Math.max(...currentTiles.map(tile => tile.x));
+      // Without a ship position, span the whole row; otherwise stay within the ship's own segment
+      const segments = getRowSegments(currentTiles);
+      let segment: RowSegment = { minX: segments[0].minX, maxX: segments[segments.length - 1].maxX };
+      if (shipPosition !== undefined) {
+        segment = this.findSegmentAt(currentTiles, shipPosition) ?? segments.reduce((nearest, candidate) =>
+          this.distanceToSegment(candidate, shipPosition) < this.distanceToSegment(nearest, shipPosition)
+            ? candidate
+            : nearest
+        );
+      }
 
       return {
-        min: Math.max(minX - this.config.shipTolerance, this.boundaries.minX),
-        max: Math.min(maxX + this.config.shipTolerance, this.boundaries.maxX - 1),
+        min: Math.max(segment.minX - this.config.shipTolerance, this.boundaries.minX),
+        max: Math.min(segment.maxX + this.config.shipTolerance, this.boundaries.maxX - 1),
       };
 
     } catch (error) {
@@ -421,6 +599,16 @@ export class CollisionDetector {
     }
   }
 
+  /**
+   * Lateral distance from a position to a segment (0 inside it)
+   */
+  private distanceToSegment(segment: RowSegment, position: number): number {
+    if (position < segment.minX) return segment.minX - position;
+    if (position > segment.maxX) return position - segment.maxX;
+    return 0;
+  }
+
+
   /**
    * Update collision configuration
    */
@@ -0,0 +1,78 @@
+/**
+ * Fixed Timestep - Accumulator that turns variable frame deltas into fixed simulation steps
+ * Keeps gameplay identical across refresh rates and absorbs long frames (tab switches, hitches)
+ */
+
+export interface FixedTimestepConfig {
+  stepSize: number; // Seconds per simulation step
+  maxFrameDelta: number; // Longest frame delta accepted, in seconds
+  maxStepsPerFrame: number; // Safety cap to avoid a spiral of death on slow devices
+}
+
+// Default configuration: 120 Hz simulation
+const DEFAULT_CONFIG: FixedTimestepConfig = {
+  stepSize: 1 / 120,
+  maxFrameDelta: 0.25,
+  maxStepsPerFrame: 30,
+};
+
+export class FixedTimestep {
+  private config: FixedTimestepConfig;
+  private accumulator: number;
+
+  constructor(config: Partial<FixedTimestepConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.accumulator = 0;
+  }
+
+  /**
+   * Clamp a raw frame delta to the accepted range
+   */
+  clampFrameDelta(frameDelta: number): number {
+    if (!Number.isFinite(frameDelta) || frameDelta <= 0) return 0;
+    return Math.min(frameDelta, this.config.maxFrameDelta);
+  }
+
+  /**
+   * Consume a frame delta, running as many fixed steps as it covers
+   * Returns the interpolation factor (0 to 1) between the last two simulated states
+   */
+  advance(frameDelta: number, step: (stepSize: number) => void): number {
+    this.accumulator += this.clampFrameDelta(frameDelta);
+
+    let steps = 0;
+    while (this.accumulator >= this.config.stepSize && steps < this.config.maxStepsPerFrame) {
+      step(this.config.stepSize);
+      this.accumulator -= this.config.stepSize;
+      steps++;
+    }
+
+    // Drop time we could not simulate rather than carrying it into the next frame
+    if (steps >= this.config.maxStepsPerFrame) {
+      this.accumulator = Math.min(this.accumulator, this.config.stepSize);
+    }
+
+    return this.getAlpha();
+  }
+
+  /**
+   * Interpolation factor between the previous and current simulation state
+   */
+  getAlpha(): number {
+    return Math.min(1, this.accumulator / this.config.stepSize);
+  }
+
+  /**
+   * Get seconds per simulation step
+   */
+  getStepSize(): number {
+    return this.config.stepSize;
+  }
+
+  /**
+   * Discard any accumulated time
+   */
+  reset(): void {
+    this.accumulator = 0;
+  }
+}
@@ -0,0 +1,732 @@
+/**
+ * Game Simulation - Headless gameplay engine
+ * Owns game state, player movement, collisions, speed progression and track generation
+ * without any DOM or React dependency, so gameplay can run in Node for tests and bots
+ */
+
+import { PlayerController } from './PlayerController';
+import type { PlayerControllerConfig, PlayerState } from './PlayerController';
+import type { ActionState } from './InputManager';
+import { CollisionDetector } from './CollisionDetection';
+import type { CollisionResult, TileCoordinate } from './CollisionDetection';
+import { SpeedProgressionSystem } from './SpeedProgressionSystem';
+import type { SpeedState } from './SpeedProgressionSystem';
+import { TrackGenerator } from './TrackGenerator';
+import { TrackBuffer } from './TrackBuffer';
+import type { TrackRowSource } from './TrackBuffer';
+import { LevelTrackSource } from './LevelTrackSource';
+import type { Level } from './levelFormat';
+import { SeededRandom } from './SeededRandom';
+import { WORLD_UNITS, speedToRowsPerSecond } from './worldUnits';
+import { getTileKindEffect } from './tileKinds';
+import type { Obstacle } from './obstacles';
+
+export type GameStatus = 'playing' | 'paused' | 'gameOver' | 'complete' | 'menu';
+
+export interface GameState {
+  rowProgress: number; // Fraction (0 to 1) of the way to the next row
+  currentYLoop: number;
+  shipPosition: number;
+  shipHeight: number; // Rows above the road while jumping
+  speed: number;
+  score: number;
+  lives: number;
+  gameStatus: GameStatus;
+  lastCollision: CollisionResult | null;
+  elapsedTime: number; // Seconds spent playing this run
+  perfectLandings: number; // Jumps this run that came down on the track
+  nearMisses: number; // Obstacles passed close by without touching them
+  boostMeter: number; // 0 to 1; filled by perfect turns and near misses, spent by holding boost
+  brakeMeter: number; // 0 to 1; spent by holding brake, recharges when released
+  isBoosting: boolean; // Spending the boost meter (boost pads are not counted)
+  isBraking: boolean;
+}
+
+export interface GameSimulationConfig {
+  nbColumns: number;
+  baseScrollSpeed: number; // Speed units before speed progression kicks in (see worldUnits)
+  minRows: number; // Rows kept generated ahead of the ship
+  startingLives: number;
+  rowScore: number; // Points awarded per row passed
+  minorCollisionPenalty: number; // Points lost on a minor collision
+  perfectLandingScore: number; // Points for a jump that comes down on the track
+  boostMeterPerPerfectTurn: number; // Meter gained by finishing a lane change centered on a lane
+  boostMeterPerNearMiss: number; // Meter gained by passing close to an obstacle
+  boostDrainRate: number; // Meter spent per second of boosting
+  boostMultiplier: number; // Speed multiplier while boosting (see SpeedProgressionSystem.setBoost)
+  brakeSpeedMultiplier: number; // Speed multiplier while braking
+  brakeScoreMultiplier: number; // Share of the row score earned while braking
+  brakeDrainRate: number; // Brake meter spent per second of braking
+  brakeRechargeRate: number; // Brake meter regained per second when not braking
+  respawnDelay: number; // Seconds before the ship is re-centered after losing a life
+  maxSubStep: number; // Longest slice (seconds) simulated at once; longer steps are split so no row is skipped
+  minTilesForCollision: number; // Tiles required before collision detection is trusted
+  speedPreset: 'arcade' | 'simulation' | 'casual' | 'hardcore';
+  level: Level | null; // Hand-authored course to play instead of the endless generator
+  playerControls: Partial<PlayerControllerConfig>; // Steering feel, input buffering and dashing
+}
+
+/**
+ * Held actions applied for a single step; omitted actions keep their previous state
+ */
+export type SimulationInputs = Partial<ActionState>;
+
+/**
+ * Render-facing view of the state, blended between the last two simulation steps
+ */
+export interface InterpolatedView {
+  rowProgress: number;
+  currentYLoop: number;
+  shipPosition: number;
+  shipHeight: number;
+}
+
+export interface SimulationStepResult {
+  playerState: PlayerState;
+  collision: CollisionResult;
+  isOnTrack: boolean;
+  rowsAdvanced: number;
+  perfectLanding: boolean; // The ship came down from a jump onto the track during this step
+}
+
+// Default configuration matching the original in-component game loop
+const DEFAULT_CONFIG: GameSimulationConfig = {
+  nbColumns: WORLD_UNITS.NB_COLUMNS,
+  baseScrollSpeed: 240,
+  minRows: 100,
+  startingLives: 3,
+  rowScore: 10,
+  minorCollisionPenalty: 50,
+  perfectLandingScore: 100,
+  boostMeterPerPerfectTurn: 0.15,
+  boostMeterPerNearMiss: 0.25,
+  boostDrainRate: 0.5,
+  boostMultiplier: 1.5,
+  brakeSpeedMultiplier: 0.6,
+  brakeScoreMultiplier: 0.5,
+  brakeDrainRate: 0.5,
+  brakeRechargeRate: 0.25,
+  respawnDelay: 0.5,
+  maxSubStep: 1 / 60,
+  minTilesForCollision: 3,
+  speedPreset: 'arcade',
+  level: null,
+  playerControls: {},
+};
+
+export class GameSimulation {
+  private config: GameSimulationConfig;
+  private state: GameState;
+  private playerController: PlayerController;
+  private collisionDetector: CollisionDetector;
+  private speedSystem: SpeedProgressionSystem;
+  private trackSource: TrackRowSource; // Endless generator, or the rows of a level
+  private seed: number;
+  private track: TrackBuffer;
+  private respawnTimer: number | null;
+  private previousScroll: number; // Total rows scrolled before the latest step
+  private previousShipPosition: number;
+  private previousShipHeight: number;
+  private wasAirborne: boolean; // Whether the ship was in the air during the previous step
+  private wasChangingLanes: boolean; // Whether the ship was moving between lanes during the previous step
+  private fellInGap: boolean; // The ship has already lost a life to the gap it is over
+  private currentTile: TileCoordinate | null; // Tile under the ship during the last step
+  private crumblingTiles: TileCoordinate[]; // Crumbling tiles that have been driven on
+  private hitObstacles: Set<Obstacle>; // Obstacles already hit, so each one only counts once
+  private passingObstacles: Set<Obstacle>; // Obstacles the ship came close to on their row; near misses once it leaves the row
+
+  constructor(seed: number = SeededRandom.createSeed(), config: Partial<GameSimulationConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    if (this.config.level) {
+      // A level defines its own lane count
+      this.config.nbColumns = this.config.level.nbColumns;
+    }
+    this.seed = seed;
+    this.state = this.createInitialState();
+    this.playerController = new PlayerController(this.config.playerControls);
+    this.collisionDetector = new CollisionDetector();
+    this.speedSystem = new SpeedProgressionSystem(this.config.speedPreset);
+    this.trackSource = this.config.level
+      ? new LevelTrackSource(this.config.level)
+      : new TrackGenerator(seed, { nbColumns: this.config.nbColumns });
+    // Spare capacity covers the rows between the ship and the generation horizon
+    this.track = new TrackBuffer(this.config.minRows + 8);
+    this.respawnTimer = null;
+    this.previousScroll = 0;
+    this.previousShipPosition = this.state.shipPosition;
+    this.previousShipHeight = 0;
+    this.wasAirborne = false;
+    this.wasChangingLanes = false;
+    this.fellInGap = false;
+    this.currentTile = null;
+    this.crumblingTiles = [];
+    this.hitObstacles = new Set();
+    this.passingObstacles = new Set();
+
+    this.collisionDetector.setBoundaries({
+      minX: 0,
+      maxX: this.config.nbColumns - 1, // Valid positions: 0 to nbColumns - 1
+      minY: 0,
+      maxY: Number.MAX_SAFE_INTEGER,
+    });
+
+    this.reset(seed);
+  }
+
+  /**
+   * Restart the run from the first row, optionally on a different seed (ignored when playing a level)
+   */
+  reset(seed: number = this.seed): void {
+    this.seed = seed;
+    this.state = this.createInitialState();
+    this.respawnTimer = null;
+    this.currentTile = null;
+    this.crumblingTiles = [];
+    this.hitObstacles.clear();
+    this.passingObstacles.clear();
+    this.wasAirborne = false;
+    this.wasChangingLanes = false;
+    this.fellInGap = false;
+
+    this.playerController.initialize(this.state.shipPosition);
+    this.speedSystem.reset();
+
+    const startY = this.state.currentYLoop + 1;
+    this.trackSource.restart(startY, seed);
+    this.track.clear(startY);
+    this.generateTiles();
+
+    this.capturePreviousState();
+  }
+
+  /**
+   * Advance the simulation by deltaTime seconds
+   * Returns null when the game is not running (paused, game over, menu)
+   */
+  step(deltaTime: number, inputs?: SimulationInputs): SimulationStepResult | null {
+    this.capturePreviousState();
+    if (this.state.gameStatus !== 'playing') return null;
+
+    if (inputs) {
+      this.playerController.setActionState(inputs);
+    }
+
+    // Split long steps (e.g. from bots) into slices that each cross at most one row
+    const rowsThisStep = speedToRowsPerSecond(this.state.speed) * deltaTime;
+    const sliceCount = Math.max(1, Math.ceil(deltaTime / this.config.maxSubStep), Math.ceil(rowsThisStep));
+    const sliceTime = deltaTime / sliceCount;
+
+    let result: SimulationStepResult | null = null;
+    for (let i = 0; i < sliceCount && this.state.gameStatus === 'playing'; i++) {
+      const slice = this.advance(sliceTime);
+      result = result ? this.mergeStepResults(result, slice) : slice;
+    }
+    return result;
+  }
+
+  /**
+   * Move the ship a number of lanes from the one it is heading for (negative: left); ignored unless playing
+   */
+  changeLanes(lanes: number): void {
+    if (this.state.gameStatus !== 'playing') return;
+    const { targetPosition } = this.playerController.getState();
+    this.playerController.setTargetPosition(Math.round(targetPosition) + lanes, this.config.nbColumns);
+  }
+
+  /**
+   * Steer the ship towards the lane containing a track position (lane n spans n to n + 1); ignored unless playing
+   */
+  steerToLane(lane: number): void {
+    if (this.state.gameStatus !== 'playing') return;
+    this.playerController.setTargetPosition(Math.floor(lane), this.config.nbColumns);
+  }
+
+  /**
+   * Pause/unpause the game
+   */
+  togglePause(): void {
+    if (this.state.gameStatus === 'playing') {
+      this.state.gameStatus = 'paused';
+    } else if (this.state.gameStatus === 'paused') {
+      this.state.gameStatus = 'playing';
+    }
+  }
+
+  /**
+   * Get a snapshot of the current game state
+   */
+  getState(): GameState {
+    return { ...this.state };
+  }
+
+  /**
+   * Blend the last two steps for rendering; alpha 0 is the previous step, 1 the latest
+   */
+  getInterpolatedView(alpha: number): InterpolatedView {
+    const t = Math.max(0, Math.min(1, alpha));
+    const scroll = this.previousScroll + (this.getTotalScroll() - this.previousScroll) * t;
+    const currentYLoop = Math.floor(scroll);
+
+    return {
+      rowProgress: scroll - currentYLoop,
+      currentYLoop,
+      shipPosition: this.previousShipPosition + (this.state.shipPosition - this.previousShipPosition) * t,
+      shipHeight: this.previousShipHeight + (this.state.shipHeight - this.previousShipHeight) * t,
+    };
+  }
+
+  /**
+   * Get the row buffer holding the tiles around the ship
+   */
+  getTrack(): TrackBuffer {
+    return this.track;
+  }
+
+  /**
+   * Get the seed of the current track
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Get the level being played, or null in endless mode
+   */
+  getLevel(): Level | null {
+    return this.config.level;
+  }
+
+  /**
+   * Get the speed system state (boost timers, difficulty) for UI
+   */
+  getSpeedState(): SpeedState {
+    return this.speedSystem.getState();
+  }
+
+  /**
+   * Get the speed breakdown for UI/debugging
+   */
+  getSpeedBreakdown(): ReturnType<SpeedProgressionSystem['getSpeedBreakdown']> {
+    return this.speedSystem.getSpeedBreakdown();
+  }
+
+  /**
+   * Get simulation configuration
+   */
+  getConfig(): GameSimulationConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Change steering settings (e.g. the input buffer window) without restarting the run
+   */
+  setPlayerControls(controls: Partial<PlayerControllerConfig>): void {
+    this.config.playerControls = { ...this.config.playerControls, ...controls };
+    this.playerController.updateConfig(controls);
+  }
+
+  /**
+   * Release input listeners
+   */
+  dispose(): void {
+    try {
+      this.playerController.cleanup();
+    } catch (error) {
+      console.error('Error disposing game simulation:', error);
+    }
+  }
+
+  /**
+   * Advance a single slice of at most one row
+   */
+  private advance(deltaTime: number): SimulationStepResult {
+    const currentState = this.state;
+
+    // Update player input and ship position
+    this.updateRespawn(deltaTime);
+    const playerState = this.playerController.update(deltaTime, this.config.nbColumns);
+    currentState.shipPosition = playerState.position;
+    currentState.shipHeight = playerState.height;
+    const isLanding = this.wasAirborne && !playerState.isAirborne;
+    this.wasAirborne = playerState.isAirborne;
+    const hasFinishedLaneChange = this.wasChangingLanes && !playerState.isMoving;
+    this.wasChangingLanes = playerState.isMoving;
+
+    currentState.elapsedTime += deltaTime;
+
+    // Update scrolling
+    const rowsAdvanced = this.advanceScroll(deltaTime);
+
+    // A level is complete once the ship has driven past its last row
+    if (this.trackSource.isFinished() && currentState.currentYLoop >= this.track.getEndRowY()) {
+      currentState.gameStatus = 'complete';
+      currentState.lastCollision = null;
+      return { playerState, collision: this.createNoCollision(), isOnTrack: true, rowsAdvanced, perfectLanding: false };
+    }
+
+    // Surface effects of the tile under the ship; a ship in the air touches none
+    if (!playerState.isAirborne) {
+      this.applyTileEffects();
+    }
+    this.updateCrumblingTiles(deltaTime);
+
+    // Check collisions (after tile generation if needed)
+    // Only check collisions if we have sufficient tiles to avoid false positives
+    let collision = this.createNoCollision();
+    if (this.track.getTileCount() >= this.config.minTilesForCollision) {
+      collision = this.collisionDetector.checkAllCollisions(
+        currentState.shipPosition,
+        0, // Ship Y position (always at bottom)
+        this.track,
+        currentState.currentYLoop,
+        playerState.isAirborne
+      );
+      collision = this.filterRepeatedGapFall(this.filterRepeatedObstacleHit(collision));
+    }
+
+    const hasCollision = collision.hasCollision && collision.severity !== 'none';
+    if (hasCollision) {
+      this.handleCollision(collision);
+      this.speedSystem.resetCombo();
+    } else {
+      // Clear previous collision if no longer colliding
+      currentState.lastCollision = null;
+    }
+    this.updateNearMisses(collision);
+    this.forgetPassedObstacles();
+
+    // Held boost and brake feed the speed system before it works out this step's speed
+    this.updateBoostAndBrake(deltaTime);
+
+    // Update progressive speed system (it keeps time in milliseconds)
+    const isOnTrack = !hasCollision;
+    this.speedSystem.update(deltaTime * 1000, isOnTrack, currentState.score);
+    currentState.speed = this.speedSystem.getCurrentSpeed();
+
+    // A lane change that ends on the road, centered on its lane, is a perfect turn: skill bonus and boost meter
+    const isGrounded = !playerState.isAirborne;
+    const isCentered = Math.abs(playerState.position - Math.floor(playerState.position + 0.5)) < 0.1;
+    if (hasFinishedLaneChange && isOnTrack && isGrounded && isCentered) {
+      this.speedSystem.recordPerfectTurn();
+      this.fillBoostMeter(this.config.boostMeterPerPerfectTurn);
+    }
+
+    // Coming down on the track from a jump is a perfect landing
+    const perfectLanding = isLanding && isOnTrack;
+    if (perfectLanding) {
+      currentState.score += this.config.perfectLandingScore;
+      currentState.perfectLandings += 1;
+      this.speedSystem.recordPerfectTurn();
+      this.fillBoostMeter(this.config.boostMeterPerPerfectTurn);
+    }
+
+    return { playerState, collision, isOnTrack, rowsAdvanced, perfectLanding };
+  }
+
+  /**
+   * Combine the results of consecutive slices of one step: the latest state, the latest collision, and any event
+   */
+  private mergeStepResults(previous: SimulationStepResult, latest: SimulationStepResult): SimulationStepResult {
+    return {
+      ...latest,
+      collision: latest.collision.hasCollision || !previous.collision.hasCollision ? latest.collision : previous.collision,
+      isOnTrack: previous.isOnTrack && latest.isOnTrack,
+      rowsAdvanced: previous.rowsAdvanced + latest.rowsAdvanced,
+      perfectLanding: previous.perfectLanding || latest.perfectLanding,
+    };
+  }
+
+  /**
+   * Remember where the ship and track were before a step, for interpolation
+   */
+  private capturePreviousState(): void {
+    this.previousScroll = this.getTotalScroll();
+    this.previousShipPosition = this.state.shipPosition;
+    this.previousShipHeight = this.state.shipHeight;
+  }
+
+  /**
+   * Total rows scrolled since the start of the run
+   */
+  private getTotalScroll(): number {
+    return this.state.currentYLoop + this.state.rowProgress;
+  }
+
+  /**
+   * Scroll the track and generate new rows; returns the number of rows passed
+   */
+  private advanceScroll(deltaTime: number): number {
+    const currentState = this.state;
+    const newProgress = currentState.rowProgress + speedToRowsPerSecond(currentState.speed) * deltaTime;
+
+    if (newProgress < 1) {
+      currentState.rowProgress = newProgress;
+      return 0;
+    }
+
+    currentState.currentYLoop += 1;
+    currentState.rowProgress = newProgress - 1;
+    currentState.score += Math.round(
+      this.config.rowScore * (currentState.isBraking ? this.config.brakeScoreMultiplier : 1)
+    );
+
+    // Generate new tiles synchronously before collision detection
+    this.generateTiles();
+    return 1;
+  }
+
+  /**
+   * Drop rows behind the ship and top up rows ahead
+   */
+  private generateTiles(): void {
+    try {
+      const currentYLoop = this.state.currentYLoop;
+      this.track.dropRowsBefore(currentYLoop);
+
+      while (this.track.getEndRowY() - currentYLoop < this.config.minRows) {
+        const row = this.trackSource.generateRow();
+        if (!row) break; // Level has no more rows
+        this.track.pushRow(row);
+      }
+    } catch (error) {
+      console.error('Error generating tiles:', error);
+    }
+  }
+
+  /**
+   * Apply the effects of the tile kind under the ship; entry effects fire once per tile
+   */
+  private applyTileEffects(): void {
+    const lane = Math.round(this.state.shipPosition);
+    const tile = this.track.getRow(this.state.currentYLoop).find((candidate) => candidate.x === lane) ?? null;
+    const effect = getTileKindEffect(tile?.kind);
+
+    this.playerController.setSteeringMultiplier(effect.steeringMultiplier ?? 1);
+
+    if (tile && tile !== this.currentTile) {
+      if (effect.speedBoost) {
+        this.speedSystem.applySpeedBoost(effect.speedBoost.multiplier, effect.speedBoost.duration);
+      }
+      if (effect.speedPenalty) {
+        this.speedSystem.applySpeedPenalty(effect.speedPenalty.multiplier, effect.speedPenalty.duration);
+      }
+      if (effect.crumbleDelay !== undefined && tile.crumbleProgress === undefined) {
+        tile.crumbleProgress = 0;
+        this.crumblingTiles.push(tile);
+      }
+      if (effect.scoreBonus !== undefined) {
+        this.state.score += effect.scoreBonus;
+        tile.kind = 'normal'; // Collected
+      }
+    }
+
+    this.currentTile = tile;
+  }
+
+  /**
+   * Advance crumbling tiles and remove the ones that have fully collapsed
+   */
+  private updateCrumblingTiles(deltaTime: number): void {
+    if (this.crumblingTiles.length === 0) return;
+
+    const firstRowY = this.track.getFirstRowY();
+    this.crumblingTiles = this.crumblingTiles.filter((tile) => {
+      // Rows behind the ship have already been evicted
+      if (tile.y < firstRowY) return false;
+
+      const delay = getTileKindEffect(tile.kind).crumbleDelay ?? 0;
+      tile.crumbleProgress = delay > 0 ? Math.min(1, (tile.crumbleProgress ?? 0) + deltaTime / delay) : 1;
+      if (tile.crumbleProgress < 1) return true;
+
+      this.track.setRow(tile.y, this.track.getRow(tile.y).filter((candidate) => candidate !== tile));
+      if (this.currentTile === tile) {
+        this.currentTile = null;
+      }
+      return false;
+    });
+  }
+
+  /**
+   * An obstacle only counts on first contact; while still overlapping it, fall back to the path check
+   */
+  private filterRepeatedObstacleHit(collision: CollisionResult): CollisionResult {
+    const { obstacle } = collision;
+    if (!obstacle) return collision;
+
+    if (!this.hitObstacles.has(obstacle)) {
+      this.hitObstacles.add(obstacle);
+      return collision;
+    }
+
+    return this.collisionDetector.checkPathCollision(
+      this.state.shipPosition,
+      0,
+      this.track,
+      this.state.currentYLoop,
+      this.wasAirborne
+    );
+  }
+
+  /**
+   * Forget hit obstacles on rows that have scrolled away, so the set stays small on long runs
+   */
+  private forgetPassedObstacles(): void {
+    const firstRowY = this.track.getFirstRowY();
+    this.hitObstacles.forEach((hit) => {
+      if (hit.y < firstRowY) this.hitObstacles.delete(hit);
+    });
+  }
+
+  /**
+   * Track obstacles the ship passes close to; one left behind without being hit is a near miss
+   */
+  private updateNearMisses(collision: CollisionResult): void {
+    if (collision.obstacle) {
+      this.passingObstacles.delete(collision.obstacle);
+    }
+
+    const currentYLoop = this.state.currentYLoop;
+    this.collisionDetector
+      .findNearMisses(this.state.shipPosition, 0, this.track, currentYLoop)
+      .forEach((obstacle) => {
+        if (!this.hitObstacles.has(obstacle)) this.passingObstacles.add(obstacle);
+      });
+
+    this.passingObstacles.forEach((obstacle) => {
+      if (obstacle.y >= currentYLoop) return;
+
+      this.passingObstacles.delete(obstacle);
+      if (this.hitObstacles.has(obstacle)) return;
+      this.state.nearMisses += 1;
+      this.speedSystem.recordNearMiss();
+      this.fillBoostMeter(this.config.boostMeterPerNearMiss);
+    });
+  }
+
+  /**
+   * Spend the meters on the held boost and brake actions; braking takes priority over boosting
+   */
+  private updateBoostAndBrake(deltaTime: number): void {
+    const currentState = this.state;
+    const actions = this.playerController.getActionState();
+
+    currentState.isBraking = actions.brake && currentState.brakeMeter > 0;
+    currentState.brakeMeter = currentState.isBraking
+      ? Math.max(0, currentState.brakeMeter - this.config.brakeDrainRate * deltaTime)
+      : Math.min(1, currentState.brakeMeter + this.config.brakeRechargeRate * deltaTime);
+    this.speedSystem.setBrake(currentState.isBraking ? this.config.brakeSpeedMultiplier : 1);
+
+    currentState.isBoosting = actions.boost && !currentState.isBraking && currentState.boostMeter > 0;
+    if (currentState.isBoosting) {
+      currentState.boostMeter = Math.max(0, currentState.boostMeter - this.config.boostDrainRate * deltaTime);
+    }
+    this.speedSystem.setBoost(currentState.isBoosting ? this.config.boostMultiplier : 1);
+  }
+
+  /**
+   * Add to the boost meter, up to full
+   */
+  private fillBoostMeter(amount: number): void {
+    this.state.boostMeter = Math.min(1, this.state.boostMeter + amount);
+  }
+
+  /**
+   * A gap only costs one life: the ship stays down until it is over a row that is not part of it
+   */
+  private filterRepeatedGapFall(collision: CollisionResult): CollisionResult {
+    if (collision.collisionType !== 'gap') {
+      this.fellInGap = false;
+      return collision;
+    }
+    if (this.fellInGap) return this.createNoCollision();
+
+    this.fellInGap = true;
+    return collision;
+  }
+
+  /**
+   * Apply the gameplay consequences of a collision
+   */
+  private handleCollision(collision: CollisionResult): void {
+    const currentState = this.state;
+    currentState.lastCollision = collision;
+
+    switch (collision.severity) {
+      case 'fatal':
+        // Immediate game over
+        currentState.lives = 0;
+        currentState.gameStatus = 'gameOver';
+        break;
+
+      case 'major':
+        // Lose a life
+        currentState.lives -= 1;
+        if (currentState.lives <= 0) {
+          currentState.gameStatus = 'gameOver';
+        } else {
+          // Brief pause and reset position
+          this.respawnTimer = this.config.respawnDelay;
+        }
+        break;
+
+      case 'minor':
+        // Small score penalty, no life lost
+        currentState.score = Math.max(0, currentState.score - this.config.minorCollisionPenalty);
+        break;
+
+      default:
+        // No action needed
+        break;
+    }
+  }
+
+  /**
+   * Re-center the ship once the respawn delay has elapsed
+   */
+  private updateRespawn(deltaTime: number): void {
+    if (this.respawnTimer === null) return;
+
+    this.respawnTimer -= deltaTime;
+    if (this.respawnTimer <= 0) {
+      this.respawnTimer = null;
+      this.playerController.setPosition(Math.floor(this.config.nbColumns / 2), this.config.nbColumns);
+    }
+  }
+
+  /**
+   * Initial state for a fresh run
+   */
+  private createInitialState(): GameState {
+    return {
+      rowProgress: 0,
+      currentYLoop: 0,
+      shipPosition: Math.floor(this.config.nbColumns / 2),
+      shipHeight: 0,
+      speed: this.config.baseScrollSpeed,
+      score: 0,
+      lives: this.config.startingLives,
+      gameStatus: 'playing',
+      lastCollision: null,
+      elapsedTime: 0,
+      perfectLandings: 0,
+      nearMisses: 0,
+      boostMeter: 0,
+      brakeMeter: 1,
+      isBoosting: false,
+      isBraking: false,
+    };
+  }
+
+  /**
+   * Collision result used when no check was performed
+   */
+  private createNoCollision(): CollisionResult {
+    return {
+      hasCollision: false,
+      severity: 'none',
+      collisionType: 'none',
+      distance: 0,
+      position: { x: this.state.shipPosition, y: 0 },
+    };
+  }
+}
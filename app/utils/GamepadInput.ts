@@ -0,0 +1,201 @@
+/**
+ * Gamepad Input - Gamepad API input source, alongside the keyboard
+ * The Gamepad API has no input events, so the game polls once per frame: the D-pad and left stick steer,
+ * A/Cross jumps, the right and left triggers boost and brake, Start pauses and Back/Select restarts. Pads can be plugged in and out at any time
+ */
+
+import type { CollisionResult } from './CollisionDetection';
+
+export interface GamepadInputConfig {
+  deadZone: number; // Stick deflection ignored around the center (0-1)
+  pauseButton: number; // Standard mapping button index
+  restartButton: number;
+  dpadLeftButton: number;
+  dpadRightButton: number;
+  jumpButton: number;
+  boostButton: number;
+  brakeButton: number;
+  rumble: Record<Exclude<CollisionResult['severity'], 'none'>, { duration: number; strength: number }>; // Milliseconds and 0-1
+}
+
+export interface GamepadSnapshot {
+  left: boolean; // Steering held left (D-pad or stick)
+  right: boolean;
+  jump: boolean; // Jump held
+  boost: boolean;
+  brake: boolean;
+  pausePressed: boolean; // Pressed since the previous poll
+  restartPressed: boolean;
+}
+
+// Default configuration for the standard gamepad mapping (Xbox / PlayStation layouts)
+const DEFAULT_CONFIG: GamepadInputConfig = {
+  deadZone: 0.35,
+  pauseButton: 9, // Start / Options
+  restartButton: 8, // Back / Share
+  dpadLeftButton: 14,
+  dpadRightButton: 15,
+  jumpButton: 0, // A / Cross
+  boostButton: 7, // Right trigger
+  brakeButton: 6, // Left trigger
+  rumble: {
+    minor: { duration: 60, strength: 0.3 },
+    major: { duration: 120, strength: 0.6 },
+    fatal: { duration: 250, strength: 1 },
+  },
+};
+
+export class GamepadInput {
+  private config: GamepadInputConfig;
+  private gamepadIndex: number | null = null; // Pad in use; the most recently connected one
+  private previousButtons: { pause: boolean; restart: boolean } = { pause: false, restart: false };
+  private eventListeners: { type: string; handler: (e: Event) => void }[] = [];
+  private onConnectionChange: ((connected: boolean) => void) | null = null;
+
+  constructor(config: Partial<GamepadInputConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Whether the Gamepad API is available (browser only)
+   */
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.getGamepads === 'function';
+  }
+
+  /**
+   * Start listening for pads being plugged in and out
+   */
+  attach(onConnectionChange?: (connected: boolean) => void): void {
+    this.detach();
+    if (typeof window === 'undefined' || !GamepadInput.isSupported()) return;
+
+    this.onConnectionChange = onConnectionChange ?? null;
+    const connectHandler = (e: GamepadEvent) => this.handleConnect(e);
+    const disconnectHandler = (e: GamepadEvent) => this.handleDisconnect(e);
+
+    window.addEventListener('gamepadconnected', connectHandler);
+    window.addEventListener('gamepaddisconnected', disconnectHandler);
+
+    this.eventListeners = [
+      { type: 'gamepadconnected', handler: connectHandler as (e: Event) => void },
+      { type: 'gamepaddisconnected', handler: disconnectHandler as (e: Event) => void },
+    ];
+  }
+
+  /**
+   * Stop listening and forget the pad in use
+   */
+  detach(): void {
+    this.eventListeners.forEach(({ type, handler }) => {
+      window.removeEventListener(type, handler);
+    });
+    this.eventListeners = [];
+    this.onConnectionChange = null;
+    this.gamepadIndex = null;
+    this.previousButtons = { pause: false, restart: false };
+  }
+
+  /**
+   * Whether a pad is connected
+   */
+  isConnected(): boolean {
+    return this.getGamepad() !== null;
+  }
+
+  /**
+   * Read the pad in use; null when none is connected
+   */
+  poll(): GamepadSnapshot | null {
+    try {
+      const gamepad = this.getGamepad();
+      if (!gamepad) {
+        this.previousButtons = { pause: false, restart: false };
+        return null;
+      }
+
+      const stickX = gamepad.axes[0] ?? 0;
+      const pause = this.isPressed(gamepad, this.config.pauseButton);
+      const restart = this.isPressed(gamepad, this.config.restartButton);
+      const snapshot: GamepadSnapshot = {
+        left: this.isPressed(gamepad, this.config.dpadLeftButton) || stickX < -this.config.deadZone,
+        right: this.isPressed(gamepad, this.config.dpadRightButton) || stickX > this.config.deadZone,
+        jump: this.isPressed(gamepad, this.config.jumpButton),
+        boost: this.isPressed(gamepad, this.config.boostButton),
+        brake: this.isPressed(gamepad, this.config.brakeButton),
+        pausePressed: pause && !this.previousButtons.pause,
+        restartPressed: restart && !this.previousButtons.restart,
+      };
+
+      this.previousButtons = { pause, restart };
+      return snapshot;
+    } catch (error) {
+      console.error('Error polling gamepad:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Rumble the pad in proportion to a collision, where the pad supports it
+   */
+  rumble(severity: CollisionResult['severity']): void {
+    if (severity === 'none') return;
+
+    const actuator = this.getGamepad()?.vibrationActuator;
+    if (!actuator || typeof actuator.playEffect !== 'function') return;
+
+    const { duration, strength } = this.config.rumble[severity];
+    actuator
+      .playEffect('dual-rumble', { duration, strongMagnitude: strength, weakMagnitude: strength })
+      .catch((error: unknown) => console.error('Error playing gamepad rumble:', error));
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<GamepadInputConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * The pad in use, falling back to any connected pad (some browsers only report pads once a button is pressed)
+   */
+  private getGamepad(): Gamepad | null {
+    if (!GamepadInput.isSupported()) return null;
+
+    const gamepads = navigator.getGamepads();
+    if (this.gamepadIndex !== null && gamepads[this.gamepadIndex]?.connected) {
+      return gamepads[this.gamepadIndex];
+    }
+
+    const fallback = gamepads.find((gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected) ?? null;
+    this.gamepadIndex = fallback ? fallback.index : null;
+    return fallback;
+  }
+
+  /**
+   * Whether a button is held
+   */
+  private isPressed(gamepad: Gamepad, button: number): boolean {
+    return gamepad.buttons[button]?.pressed ?? false;
+  }
+
+  /**
+   * Switch to a newly connected pad
+   */
+  private handleConnect(e: GamepadEvent): void {
+    this.gamepadIndex = e.gamepad.index;
+    this.previousButtons = { pause: false, restart: false };
+    this.onConnectionChange?.(true);
+  }
+
+  /**
+   * Drop a pad that was unplugged, moving on to another one if any is left
+   */
+  private handleDisconnect(e: GamepadEvent): void {
+    if (this.gamepadIndex === e.gamepad.index) {
+      this.gamepadIndex = null;
+    }
+    this.onConnectionChange?.(this.isConnected());
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Input Manager - Maps physical inputs to named actions
+ * Keys are bound to actions (rebindable, each key to at most one action), other sources such as the gamepad
+ * report the actions they hold, and consumers only ever see actions: held ones for the ship, pressed ones for the game screen
+ */
+
+export type PlayerAction = 'steerLeft' | 'steerRight' | 'boost' | 'brake' | 'jump'; // Held; read by the ship every step
+export type GameAction = 'pause' | 'restart' | 'switchCamera'; // Pressed; handled by the game screen
+export type InputAction = PlayerAction | GameAction;
+
+export type ActionState = Record<PlayerAction, boolean>;
+
+// Keys bound to each action, as lowercased KeyboardEvent.key values
+export type KeyBindings = Record<InputAction, string[]>;
+
+// Actions in the order the controls settings list them
+export const INPUT_ACTIONS: readonly InputAction[] = [
+  'steerLeft',
+  'steerRight',
+  'boost',
+  'brake',
+  'jump',
+  'pause',
+  'restart',
+  'switchCamera',
+];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  steerLeft: 'Steer left',
+  steerRight: 'Steer right',
+  boost: 'Boost',
+  brake: 'Brake',
+  jump: 'Jump',
+  pause: 'Pause',
+  restart: 'Restart',
+  switchCamera: 'Camera',
+};
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  steerLeft: ['arrowleft', 'a'],
+  steerRight: ['arrowright', 'd'],
+  boost: ['arrowup', 'w'],
+  brake: ['arrowdown', 's'],
+  jump: [' '],
+  pause: ['p', 'escape'],
+  restart: ['r'],
+  switchCamera: ['c'],
+};
+
+// Bindings per action shown in the controls settings
+export const BINDING_SLOTS = 2;
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  escape: 'Esc',
+};
+
+/**
+ * Readable name of a bound key
+ */
+export const getKeyLabel = (key: string): string => {
+  return KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key.charAt(0).toUpperCase() + key.slice(1));
+};
+
+/**
+ * Copy bindings, so callers never share arrays with the manager
+ */
+export const cloneKeyBindings = (bindings: KeyBindings): KeyBindings => {
+  return INPUT_ACTIONS.reduce((copy, action) => {
+    copy[action] = [...bindings[action]];
+    return copy;
+  }, {} as KeyBindings);
+};
+
+export class InputManager {
+  private bindings: KeyBindings;
+  private heldKeys: Set<string> = new Set();
+  private sourceActions: Map<string, Partial<Record<InputAction, boolean>>> = new Map(); // Held actions reported by other sources
+  private pressListeners: Set<(action: InputAction) => void> = new Set();
+  private pressedSinceRead: Set<InputAction> = new Set(); // Pressed since the last consumePresses(), even if already released
+  private rebind: { action: InputAction; slot: number; onDone: (bindings: KeyBindings | null) => void } | null = null;
+  private eventListeners: { type: string; handler: (e: Event) => void }[] = [];
+
+  constructor(bindings: KeyBindings = DEFAULT_KEY_BINDINGS) {
+    this.bindings = cloneKeyBindings(bindings);
+  }
+
+  /**
+   * Start listening to the keyboard (browser only)
+   */
+  attach(): void {
+    this.detach();
+    if (typeof window === 'undefined') return;
+
+    const keyDownHandler = (e: KeyboardEvent) => this.handleKeyDown(e);
+    const keyUpHandler = (e: KeyboardEvent) => this.handleKeyUp(e);
+    const blurHandler = () => this.heldKeys.clear(); // Keys released while the window is in the background never report it
+
+    window.addEventListener('keydown', keyDownHandler);
+    window.addEventListener('keyup', keyUpHandler);
+    window.addEventListener('blur', blurHandler);
+
+    this.eventListeners = [
+      { type: 'keydown', handler: keyDownHandler as (e: Event) => void },
+      { type: 'keyup', handler: keyUpHandler as (e: Event) => void },
+      { type: 'blur', handler: blurHandler },
+    ];
+  }
+
+  /**
+   * Stop listening and release everything held
+   */
+  detach(): void {
+    this.eventListeners.forEach(({ type, handler }) => {
+      window.removeEventListener(type, handler);
+    });
+    this.eventListeners = [];
+    this.heldKeys.clear();
+    this.pressedSinceRead.clear();
+    this.rebind = null;
+  }
+
+  /**
+   * Whether an action is held on the keyboard or any other source
+   */
+  isHeld(action: InputAction): boolean {
+    if (this.bindings[action].some((key) => this.heldKeys.has(key))) return true;
+
+    let held = false;
+    this.sourceActions.forEach((actions) => {
+      held = held || actions[action] === true;
+    });
+    return held;
+  }
+
+  /**
+   * Held state of the actions the ship responds to, read before every simulation step
+   * An action pressed since the last consumePresses() counts as held, so a tap shorter than a step still reaches the ship
+   */
+  getActionState(): ActionState {
+    const isActive = (action: PlayerAction) => this.isHeld(action) || this.pressedSinceRead.has(action);
+    return {
+      steerLeft: isActive('steerLeft'),
+      steerRight: isActive('steerRight'),
+      boost: isActive('boost'),
+      brake: isActive('brake'),
+      jump: isActive('jump'),
+    };
+  }
+
+  /**
+   * Forget presses once a simulation step has seen them; frames that run no step keep them for the next one
+   */
+  consumePresses(): void {
+    this.pressedSinceRead.clear();
+  }
+
+  /**
+   * Report the actions another source (e.g. the gamepad) holds; they combine with the keyboard
+   */
+  setSourceState(source: string, actions: Partial<Record<InputAction, boolean>>): void {
+    this.sourceActions.set(source, actions);
+  }
+
+  /**
+   * Press an action from another source (e.g. a gamepad button or an on-screen button)
+   */
+  trigger(action: InputAction): void {
+    this.pressedSinceRead.add(action);
+    this.pressListeners.forEach((listener) => {
+      try {
+        listener(action);
+      } catch (error) {
+        console.error(`Error handling input action ${action}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Listen for pressed actions; returns a function that stops listening
+   */
+  onPress(listener: (action: InputAction) => void): () => void {
+    this.pressListeners.add(listener);
+    return () => {
+      this.pressListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get a copy of the key bindings
+   */
+  getBindings(): KeyBindings {
+    return cloneKeyBindings(this.bindings);
+  }
+
+  /**
+   * Replace the key bindings (e.g. with saved ones)
+   */
+  setBindings(bindings: KeyBindings): void {
+    this.bindings = cloneKeyBindings(bindings);
+  }
+
+  /**
+   * Bind the next key pressed to an action's slot; Escape cancels
+   * The key is taken away from any other action, so one key never triggers two actions
+   */
+  startRebind(action: InputAction, slot: number, onDone: (bindings: KeyBindings | null) => void): void {
+    this.cancelRebind();
+    this.rebind = { action, slot, onDone };
+  }
+
+  /**
+   * Stop waiting for a key to bind
+   */
+  cancelRebind(): void {
+    const rebind = this.rebind;
+    this.rebind = null;
+    rebind?.onDone(null);
+  }
+
+  /**
+   * Whether the next key press will be bound rather than acted on
+   */
+  isRebinding(): boolean {
+    return this.rebind !== null;
+  }
+
+  /**
+   * Handle keydown events: bind the key while rebinding, otherwise hold and press its action
+   */
+  private handleKeyDown(e: KeyboardEvent): void {
+    const key = e.key.toLowerCase();
+
+    if (this.rebind) {
+      e.preventDefault();
+      if (key === 'escape') {
+        this.cancelRebind();
+        return;
+      }
+      this.bindKey(key);
+      return;
+    }
+
+    if (e.ctrlKey || e.metaKey || e.altKey) return; // Leave browser shortcuts alone
+    const action = this.getAction(key);
+    if (!action) return;
+
+    e.preventDefault();
+    const isNewPress = !this.heldKeys.has(key) && !e.repeat;
+    this.heldKeys.add(key);
+    if (isNewPress) {
+      this.trigger(action);
+    }
+  }
+
+  /**
+   * Handle keyup events
+   */
+  private handleKeyUp(e: KeyboardEvent): void {
+    this.heldKeys.delete(e.key.toLowerCase());
+  }
+
+  /**
+   * Action bound to a key, if any
+   */
+  private getAction(key: string): InputAction | undefined {
+    return INPUT_ACTIONS.find((action) => this.bindings[action].includes(key));
+  }
+
+  /**
+   * Finish a rebind with the given key
+   */
+  private bindKey(key: string): void {
+    const rebind = this.rebind;
+    if (!rebind) return;
+
+    INPUT_ACTIONS.forEach((action) => {
+      if (action !== rebind.action) {
+        this.bindings[action] = this.bindings[action].filter((bound) => bound !== key);
+      }
+    });
+
+    // Fill the slot (or the first free one), dropping the key from the action's other slot
+    const keys = [...this.bindings[rebind.action]];
+    keys[Math.min(rebind.slot, keys.length)] = key;
+    this.bindings[rebind.action] = keys.filter((bound, index) => keys.indexOf(bound) === index);
+    this.heldKeys.delete(key);
+
+    this.rebind = null;
+    rebind.onDone(this.getBindings());
+  }
+}
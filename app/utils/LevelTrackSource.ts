@@ -0,0 +1,67 @@
+/**
+ * Level Track Source - Feeds the rows of a hand-authored level into the track buffer
+ * Drop-in replacement for TrackGenerator; runs out after the level's last row
+ */
+
+import type { Level } from './levelFormat';
+import type { TrackRowData, TrackRowSource } from './TrackBuffer';
+
+export class LevelTrackSource implements TrackRowSource {
+  private level: Level;
+  private nextIndex: number;
+  private startY: number;
+
+  constructor(level: Level) {
+    this.level = level;
+    this.nextIndex = 0;
+    this.startY = 1;
+  }
+
+  /**
+   * Restart from the first row of the level (levels are fixed, so no seed is needed)
+   */
+  restart(startY: number = 1): void {
+    this.nextIndex = 0;
+    this.startY = startY;
+  }
+
+  /**
+   * Next level row shifted to track row indices, or null after the last row
+   */
+  generateRow(): TrackRowData | null {
+    if (this.isFinished()) return null;
+
+    const row = this.level.rows[this.nextIndex];
+    const y = this.startY + this.nextIndex;
+    this.nextIndex++;
+
+    // Copies, so gameplay changes (crumbling, collected coins) never leak into the level
+    return {
+      ...row,
+      y,
+      tiles: row.tiles.map((tile) => ({ ...tile, y })),
+      obstacles: row.obstacles.map((obstacle) => ({ ...obstacle, y })),
+    };
+  }
+
+  /**
+   * Whether every level row has been produced
+   */
+  isFinished(): boolean {
+    return this.nextIndex >= this.level.rows.length;
+  }
+
+  /**
+   * Track row index just past the level's last row
+   */
+  getEndRowY(): number {
+    return this.startY + this.level.rows.length;
+  }
+
+  /**
+   * Get the level being played
+   */
+  getLevel(): Level {
+    return this.level;
+  }
+}
@@ -1,16 +1,24 @@
 /**
  * Particle System for Speed Effects and Visual Enhancements
  * Provides various particle effects to enhance the racing game experience
+ * Particles live in world space around the ship and are drawn through the game camera
  */
 
+import { projectRoadPoint, STRAIGHT_ROAD, FLAT_ROAD } from './perspective';
+import type { RoadCurve, RoadElevation } from './perspective';
+import type { Camera } from './Camera';
+import { WORLD_UNITS } from './worldUnits';
+
 export interface Particle {
-  x: number;
-  y: number;
-  velocityX: number;
-  velocityY: number;
+  x: number; // Lanes from the left edge of the track
+  y: number; // Rows above the road
+  z: number; // Rows ahead of the ship
+  velocityX: number; // Lanes per second
+  velocityY: number; // Rows per second, upwards
+  velocityZ: number; // Rows per second, forwards
   life: number;
   maxLife: number;
-  size: number;
+  size: number; // Pixels, at the ship's distance
   color: string;
   alpha: number;
   type: 'speed_line' | 'spark' | 'dust' | 'boost';
@@ -38,18 +46,11 @@ const DEFAULT_CONFIG: ParticleSystemConfig = {
 export class ParticleSystem {
   private particles: Particle[] = [];
   private config: ParticleSystemConfig;
-  private canvasSize: { width: number; height: number };
+  private nbColumns: number;
 
-  constructor(canvasSize: { width: number; height: number }, config: Partial<ParticleSystemConfig> = {}) {
+  constructor(nbColumns: number = WORLD_UNITS.NB_COLUMNS, config: Partial<ParticleSystemConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.canvasSize = canvasSize;
-  }
-
-  /**
-   * Update canvas size when window resizes
-   */
-  updateCanvasSize(canvasSize: { width: number; height: number }): void {
-    this.canvasSize = canvasSize;
+    this.nbColumns = nbColumns;
   }
 
   /**
@@ -92,14 +93,21 @@ export class ParticleSystem {
   }
 
   /**
-   * Render all particles to the canvas
+   * Render all particles to the canvas through the camera, following the road's bends and hills
    */
-  render(context: CanvasRenderingContext2D): void {
+  render(
+    context: CanvasRenderingContext2D,
+    camera: Camera,
+    roadCurve: RoadCurve = STRAIGHT_ROAD,
+    roadElevation: RoadElevation = FLAT_ROAD
+  ): void {
     try {
       context.save();
       
       this.particles.forEach(particle => {
-        this.renderParticle(context, particle);
+        const projected = projectRoadPoint(camera, particle.x, particle.z, roadCurve, roadElevation, particle.y);
+        if (!projected) return;
+        this.renderParticle(context, particle, projected.x, projected.y, projected.scale, camera, roadCurve, roadElevation);
       });
 
     } catch (error) {
@@ -116,7 +124,8 @@ export class ParticleSystem {
     this.particles.forEach(particle => {
       // Update position
       particle.x += particle.velocityX * deltaTime;
-      particle.y += particle.velocityY * deltaTime;
+      particle.y = Math.max(0, particle.y + particle.velocityY * deltaTime); // Nothing sinks into the road
+      particle.z += particle.velocityZ * deltaTime;
 
       // Update life
       particle.life -= deltaTime;
@@ -128,23 +137,23 @@ export class ParticleSystem {
       switch (particle.type) {
         case 'speed_line':
           // Speed lines accelerate and fade quickly
-          particle.velocityY += gameSpeed * deltaTime * 0.5;
+          particle.velocityZ += gameSpeed * deltaTime * 0.012;
           particle.size = Math.max(0.5, particle.size - deltaTime * 2);
           break;
         case 'spark':
           // Sparks have gravity and friction
-          particle.velocityY += 200 * deltaTime; // Gravity
+          particle.velocityY -= 5 * deltaTime; // Gravity
           particle.velocityX *= 0.98; // Friction
           particle.size = Math.max(0.2, particle.size - deltaTime * 3);
           break;
         case 'dust':
           // Dust particles drift and settle
           particle.velocityX *= 0.95; // Air resistance
-          particle.velocityY += 50 * deltaTime; // Light gravity
+          particle.velocityY -= 1.2 * deltaTime; // Light gravity
           break;
         case 'boost':
           // Boost particles are fast and bright
-          particle.velocityY += gameSpeed * deltaTime * 2;
+          particle.velocityZ += gameSpeed * deltaTime * 0.05;
           particle.size += deltaTime; // Grow over time
           break;
       }
@@ -190,14 +199,15 @@ export class ParticleSystem {
    * Spawn a speed line particle
    */
   private spawnSpeedLine(intensity: number, shipPosition: number): void {
-    const laneWidth = this.canvasSize.width / 7;
-    const baseX = shipPosition * laneWidth + laneWidth / 2;
+    const baseX = shipPosition + 0.5;
     
     this.particles.push({
-      x: baseX + (Math.random() - 0.5) * this.canvasSize.width * 0.8,
-      y: this.canvasSize.height + 10,
-      velocityX: (Math.random() - 0.5) * 50,
-      velocityY: -300 - intensity * 200,
+      x: baseX + (Math.random() - 0.5) * this.nbColumns * 0.8,
+      y: 0.5 + Math.random() * 2,
+      z: 0,
+      velocityX: (Math.random() - 0.5) * 0.35,
+      velocityY: 0,
+      velocityZ: 7 + intensity * 5,
       life: 0.3 + intensity * 0.4,
       maxLife: 0.3 + intensity * 0.4,
       size: 1 + intensity * 3,
@@ -211,18 +221,19 @@ export class ParticleSystem {
    * Spawn a spark particle
    */
   private spawnSpark(intensity: number, shipPosition: number, isBoosting: boolean): void {
-    const laneWidth = this.canvasSize.width / 7;
-    const baseX = shipPosition * laneWidth + laneWidth / 2;
+    const baseX = shipPosition + 0.5;
     
     const sparkColor = isBoosting ? 
       `hsl(${30 + Math.random() * 30}, 100%, 75%)` : // Bright orange/yellow for boost
       `hsl(${0 + Math.random() * 30}, 90%, 65%)`; // Bright red/orange for off-track
     
     this.particles.push({
-      x: baseX + (Math.random() - 0.5) * laneWidth * 1.5,
-      y: this.canvasSize.height - 20,
-      velocityX: (Math.random() - 0.5) * 150,
-      velocityY: -80 - Math.random() * 150,
+      x: baseX + (Math.random() - 0.5) * 1.5,
+      y: 0.3,
+      z: 0.5,
+      velocityX: (Math.random() - 0.5) * 1,
+      velocityY: 2 + Math.random() * 3.5,
+      velocityZ: 0,
       life: 0.4 + Math.random() * 0.5,
       maxLife: 0.4 + Math.random() * 0.5,
       size: 3 + Math.random() * 4,
@@ -236,14 +247,15 @@ export class ParticleSystem {
    * Spawn a dust particle
    */
   private spawnDustParticle(intensity: number, shipPosition: number): void {
-    const laneWidth = this.canvasSize.width / 7;
-    const baseX = shipPosition * laneWidth + laneWidth / 2;
+    const baseX = shipPosition + 0.5;
     
     this.particles.push({
-      x: baseX + (Math.random() - 0.5) * laneWidth * 1.5,
-      y: this.canvasSize.height - 10,
-      velocityX: (Math.random() - 0.5) * 30,
-      velocityY: -20 - Math.random() * 40,
+      x: baseX + (Math.random() - 0.5) * 1.5,
+      y: 0,
+      z: 0.25,
+      velocityX: (Math.random() - 0.5) * 0.2,
+      velocityY: 0.5 + Math.random() * 1,
+      velocityZ: 0,
       life: 1 + Math.random() * 1.5,
       maxLife: 1 + Math.random() * 1.5,
       size: 3 + Math.random() * 4,
@@ -257,14 +269,15 @@ export class ParticleSystem {
    * Spawn a boost particle
    */
   private spawnBoostParticle(intensity: number, shipPosition: number): void {
-    const laneWidth = this.canvasSize.width / 7;
-    const baseX = shipPosition * laneWidth + laneWidth / 2;
+    const baseX = shipPosition + 0.5;
     
     this.particles.push({
-      x: baseX + (Math.random() - 0.5) * laneWidth * 0.5,
-      y: this.canvasSize.height - 40,
-      velocityX: (Math.random() - 0.5) * 40,
-      velocityY: -300 - intensity * 200,
+      x: baseX + (Math.random() - 0.5) * 0.5,
+      y: 0.2,
+      z: 1,
+      velocityX: (Math.random() - 0.5) * 0.3,
+      velocityY: 0,
+      velocityZ: 7 + intensity * 5,
       life: 0.8,
       maxLife: 0.8,
       size: 4 + Math.random() * 3,
@@ -277,23 +290,33 @@ export class ParticleSystem {
   /**
    * Render a single particle
    */
-  private renderParticle(context: CanvasRenderingContext2D, particle: Particle): void {
+  private renderParticle(
+    context: CanvasRenderingContext2D,
+    particle: Particle,
+    x: number,
+    y: number,
+    scale: number,
+    camera: Camera,
+    roadCurve: RoadCurve,
+    roadElevation: RoadElevation
+  ): void {
     try {
       context.save();
       context.globalAlpha = particle.alpha;
+      const size = particle.size * scale;
       
       switch (particle.type) {
         case 'speed_line':
-          this.renderSpeedLine(context, particle);
+          this.renderSpeedLine(context, particle, x, y, size, camera, roadCurve, roadElevation);
           break;
         case 'spark':
-          this.renderSpark(context, particle);
+          this.renderSpark(context, particle, x, y, size);
           break;
         case 'dust':
-          this.renderDust(context, particle);
+          this.renderDust(context, particle, x, y, size);
           break;
         case 'boost':
-          this.renderBoostParticle(context, particle);
+          this.renderBoostParticle(context, particle, x, y, size);
           break;
       }
 
@@ -307,69 +330,75 @@ export class ParticleSystem {
   /**
    * Render a speed line particle
    */
-  private renderSpeedLine(context: CanvasRenderingContext2D, particle: Particle): void {
+  private renderSpeedLine(
+    context: CanvasRenderingContext2D,
+    particle: Particle,
+    x: number,
+    y: number,
+    size: number,
+    camera: Camera,
+    roadCurve: RoadCurve,
+    roadElevation: RoadElevation
+  ): void {
+    // The trail stretches back towards the ship, longer the faster the line flies
+    const trailLength = 0.35 + particle.velocityZ * 0.06;
+    const trailEnd = projectRoadPoint(camera, particle.x, particle.z - trailLength, roadCurve, roadElevation, particle.y);
+    if (!trailEnd) return;
+
     context.strokeStyle = particle.color;
-    context.lineWidth = particle.size;
+    context.lineWidth = size;
     context.lineCap = 'round';
     
-    const trailLength = 15 + particle.velocityY * -0.1;
-    
     context.beginPath();
-    context.moveTo(particle.x, particle.y);
-    context.lineTo(particle.x, particle.y + trailLength);
+    context.moveTo(x, y);
+    context.lineTo(trailEnd.x, trailEnd.y);
     context.stroke();
   }
 
   /**
    * Render a spark particle
    */
-  private renderSpark(context: CanvasRenderingContext2D, particle: Particle): void {
+  private renderSpark(context: CanvasRenderingContext2D, particle: Particle, x: number, y: number, size: number): void {
     // Create a glowing effect
-    const gradient = context.createRadialGradient(
-      particle.x, particle.y, 0,
-      particle.x, particle.y, particle.size * 2
-    );
+    const gradient = context.createRadialGradient(x, y, 0, x, y, size * 2);
     gradient.addColorStop(0, particle.color);
     gradient.addColorStop(1, 'transparent');
     
     context.fillStyle = gradient;
     context.beginPath();
-    context.arc(particle.x, particle.y, particle.size * 2, 0, Math.PI * 2);
+    context.arc(x, y, size * 2, 0, Math.PI * 2);
     context.fill();
     
     // Bright center
     context.fillStyle = particle.color;
     context.beginPath();
-    context.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
+    context.arc(x, y, size, 0, Math.PI * 2);
     context.fill();
   }
 
   /**
    * Render a dust particle
    */
-  private renderDust(context: CanvasRenderingContext2D, particle: Particle): void {
+  private renderDust(context: CanvasRenderingContext2D, particle: Particle, x: number, y: number, size: number): void {
     context.fillStyle = particle.color;
     context.beginPath();
-    context.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
+    context.arc(x, y, size, 0, Math.PI * 2);
     context.fill();
   }
 
   /**
    * Render a boost particle
    */
-  private renderBoostParticle(context: CanvasRenderingContext2D, particle: Particle): void {
+  private renderBoostParticle(context: CanvasRenderingContext2D, particle: Particle, x: number, y: number, size: number): void {
     // Create a bright, expanding effect
-    const gradient = context.createRadialGradient(
-      particle.x, particle.y, 0,
-      particle.x, particle.y, particle.size * 3
-    );
+    const gradient = context.createRadialGradient(x, y, 0, x, y, size * 3);
     gradient.addColorStop(0, particle.color);
     gradient.addColorStop(0.5, particle.color.replace(')', ', 0.5)').replace('hsl', 'hsla'));
     gradient.addColorStop(1, 'transparent');
     
     context.fillStyle = gradient;
     context.beginPath();
-    context.arc(particle.x, particle.y, particle.size * 3, 0, Math.PI * 2);
+    context.arc(x, y, size * 3, 0, Math.PI * 2);
     context.fill();
   }
 
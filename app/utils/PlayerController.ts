@@ -1,13 +1,36 @@
 /**
- * Player Controller - Handles keyboard input and ship movement
+ * Player Controller - Turns held actions into ship movement
  * Provides smooth, responsive controls with proper state management
+ * Devices are mapped to actions by InputManager, so the controller never sees raw keys
+ * Steering presses are buffered: a press that comes too soon after the last lane change is kept for a short window
+ * and applied as soon as it is allowed, and a quick double-tap turns its second lane change into a dash
+ * Two physics modes: 'lane' glides the ship from lane to lane, 'momentum' gives it lateral acceleration, grip and
+ * inertia, so it drifts and can sit between lanes
+ * Jumping lifts the ship off the road on a fixed arc; it can still steer while airborne
  */
 
+import type { ActionState } from './InputManager';
+
+export type PhysicsMode = 'lane' | 'momentum';
+
+export const PHYSICS_MODES: readonly PhysicsMode[] = ['lane', 'momentum'];
+
 export interface PlayerControllerConfig {
+  physicsMode: PhysicsMode;
   moveSpeed: number; // Lanes per second
-  smoothingFactor: number; // For smooth movement interpolation
+  smoothingFactor: number; // Fraction of remaining distance covered per reference frame
   keyRepeatDelay: number; // Milliseconds before key repeat
-  maxMoveDistance: number; // Maximum distance per move
+  maxMoveDistance: number; // Maximum distance per reference frame
+  inputBufferWindow: number; // Milliseconds a steering press waits to be applied before it is dropped
+  dashEnabled: boolean;
+  dashTapWindow: number; // Milliseconds between two presses in the same direction that make a dash
+  dashLanes: number; // Lanes a double-tap moves in all, counting the lane its first press already moved
+  dashSpeedMultiplier: number; // Movement cap multiplier while dashing
+  lateralAcceleration: number; // Momentum mode: lanes per second squared while steering
+  lateralGrip: number; // Momentum mode: rate (per second) at which sideways speed bleeds off when not pushed
+  maxLateralSpeed: number; // Momentum mode: lanes per second
+  jumpDuration: number; // Seconds from take-off to landing
+  jumpHeight: number; // Height of the arc's top, in rows above the road
 }
 
 export interface PlayerState {
@@ -15,54 +38,96 @@ export interface PlayerState {
   targetPosition: number; // Target lane position
   velocity: number; // Current movement velocity
   isMoving: boolean; // Whether player is currently moving
+  isDashing: boolean; // Whether the current lane change is a dash
+  height: number; // Rows above the road (0 on the ground)
+  isAirborne: boolean;
 }
 
-export interface KeyState {
-  left: boolean;
-  right: boolean;
-  up: boolean;
-  down: boolean;
-  space: boolean;
+type SteeringDirection = 'left' | 'right';
+
+interface BufferedPress {
+  direction: SteeringDirection;
+  time: number; // Simulation clock when pressed
 }
 
 // Default configuration for responsive controls
 const DEFAULT_CONFIG: PlayerControllerConfig = {
+  physicsMode: 'lane',
   moveSpeed: 4.0, // Lanes per second
   smoothingFactor: 0.15, // Smooth interpolation
   keyRepeatDelay: 150, // 150ms delay
   maxMoveDistance: 0.3, // Max distance per frame
+  inputBufferWindow: 200,
+  dashEnabled: true,
+  dashTapWindow: 250,
+  dashLanes: 3, // One more than two taps would move
+  dashSpeedMultiplier: 2,
+  lateralAcceleration: 24,
+  lateralGrip: 7,
+  maxLateralSpeed: 7,
+  jumpDuration: 0.65,
+  jumpHeight: 1.2,
 };
 
+// Momentum mode: a pointer target is reached within this distance (lanes) and below this speed (lanes per second)
+const TARGET_ARRIVAL_DISTANCE = 0.02;
+const TARGET_ARRIVAL_SPEED = 0.1;
+const TARGET_RESPONSE_TIME = 0.1; // Seconds over which steering closes the gap to the speed wanted for a target
+const REST_SPEED = 0.01; // Lanes per second below which a coasting ship stops
+
+// Frame rate the per-frame tuning values above were authored against
+const REFERENCE_FPS = 60;
+
+/**
+ * Action state with nothing held
+ */
+const createIdleActionState = (): ActionState => ({
+  steerLeft: false,
+  steerRight: false,
+  boost: false,
+  brake: false,
+  jump: false,
+});
+
 export class PlayerController {
   private config: PlayerControllerConfig;
-  private keyState: KeyState;
-  private lastKeyTime: { [key: string]: number };
+  private actionState: ActionState;
+  private lastKeyTime: { [key: string]: number }; // Last lane change per direction
+  private lastPressTime: { [key: string]: number }; // Last press per direction, for double-tap detection
+  private inputBuffer: BufferedPress[]; // Presses not applied yet, oldest first
+  private steeringTarget: number | null; // Momentum mode: lane set by pointer or touch steering, until reached
+  private jumpPressTime: number | null; // Buffered jump press, applied on the ground
+  private airTime: number; // Seconds since take-off while airborne
   private playerState: PlayerState;
-  private eventListeners: { type: string; handler: (e: Event) => void }[];
   private isActive: boolean;
+  private clockMs: number; // Simulation clock, advanced by update() so input timing is deterministic
+  private steeringMultiplier: number; // Surface grip (e.g. ice), 1 = normal responsiveness
 
   constructor(config: Partial<PlayerControllerConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.keyState = {
-      left: false,
-      right: false,
-      up: false,
-      down: false,
-      space: false,
-    };
+    this.actionState = createIdleActionState();
     this.lastKeyTime = {};
+    this.lastPressTime = {};
+    this.inputBuffer = [];
+    this.steeringTarget = null;
+    this.jumpPressTime = null;
+    this.airTime = 0;
     this.playerState = {
       position: 0,
       targetPosition: 0,
       velocity: 0,
       isMoving: false,
+      isDashing: false,
+      height: 0,
+      isAirborne: false,
     };
-    this.eventListeners = [];
     this.isActive = false;
+    this.clockMs = 0;
+    this.steeringMultiplier = 1;
   }
 
   /**
-   * Initialize player controller and start listening to input
+   * Initialize player controller; input arrives through setActionState()
    */
   initialize(initialPosition: number = 3): void { // Default to center lane
     try {
@@ -71,9 +136,13 @@ export class PlayerController {
         targetPosition: initialPosition,
         velocity: 0,
         isMoving: false,
+        isDashing: false,
+        height: 0,
+        isAirborne: false,
       };
 
-      this.attachEventListeners();
+      this.steeringMultiplier = 1;
+      this.resetActionState();
       this.isActive = true;
     } catch (error) {
       console.error('Failed to initialize player controller:', error);
@@ -81,13 +150,12 @@ export class PlayerController {
   }
 
   /**
-   * Clean up event listeners and stop controller
+   * Stop controller and release held actions
    */
   cleanup(): void {
     try {
-      this.detachEventListeners();
       this.isActive = false;
-      this.resetKeyState();
+      this.resetActionState();
     } catch (error) {
       console.error('Error during player controller cleanup:', error);
     }
@@ -100,11 +168,20 @@ export class PlayerController {
     if (!this.isActive) return this.playerState;
 
     try {
-      // Handle input and update target position
-      this.processInput(maxLanes);
-      
-      // Smooth movement interpolation
-      this.updateMovement(deltaTime);
+      this.clockMs += deltaTime * 1000;
+
+      if (this.config.physicsMode === 'momentum') {
+        this.processMomentumPresses();
+        this.updateMomentum(deltaTime, maxLanes);
+      } else {
+        // Handle input and update target position
+        this.processInput(maxLanes);
+
+        // Smooth movement interpolation
+        this.updateMovement(deltaTime);
+      }
+
+      this.updateJump(deltaTime);
       
       // Clamp position to valid lanes
       this.clampPosition(maxLanes);
@@ -132,6 +209,25 @@ export class PlayerController {
     this.playerState.targetPosition = clampedPosition;
     this.playerState.velocity = 0;
     this.playerState.isMoving = false;
+    this.playerState.isDashing = false;
+    this.inputBuffer = [];
+    this.steeringTarget = null;
+    this.land();
+  }
+
+  /**
+   * Set the lane to move towards; the ship gets there at its normal steering speed (pointer and touch steering)
+   */
+  setTargetPosition(position: number, maxLanes: number): void {
+    this.playerState.targetPosition = Math.max(0, Math.min(maxLanes - 1, position));
+    this.steeringTarget = this.playerState.targetPosition;
+  }
+
+  /**
+   * Scale steering responsiveness for the current surface (1 = normal, lower = slippery)
+   */
+  setSteeringMultiplier(multiplier: number): void {
+    this.steeringMultiplier = Math.max(0.05, Math.min(1, multiplier));
   }
 
   /**
@@ -142,34 +238,237 @@ export class PlayerController {
   }
 
   /**
-   * Get current key state (useful for debugging)
+   * Get held actions (useful for debugging)
+   */
+  getActionState(): ActionState {
+    return { ...this.actionState };
+  }
+
+  /**
+   * Set held actions; omitted actions keep their state
+   * A steering action going from released to held is buffered as a press
+   */
+  setActionState(actions: Partial<ActionState>): void {
+    if (actions.steerLeft && !this.actionState.steerLeft) {
+      this.bufferPress('left');
+    }
+    if (actions.steerRight && !this.actionState.steerRight) {
+      this.bufferPress('right');
+    }
+    if (actions.jump && !this.actionState.jump) {
+      this.jumpPressTime = this.clockMs;
+    }
+    this.actionState = { ...this.actionState, ...actions };
+  }
+
+  /**
+   * Presses waiting to be applied (useful for debugging)
+   */
+  getBufferedPressCount(): number {
+    return this.inputBuffer.length;
+  }
+
+  /**
+   * Queue a steering press, stamped with the simulation clock
    */
-  getKeyState(): KeyState {
-    return { ...this.keyState };
+  private bufferPress(direction: SteeringDirection): void {
+    this.inputBuffer.push({ direction, time: this.clockMs });
   }
 
   /**
-   * Process keyboard input and update target position
+   * Apply buffered presses, then held steering, and update target position
    */
   private processInput(maxLanes: number): void {
-    const currentTime = Date.now();
+    const currentTime = this.clockMs;
 
-    // Handle left movement
-    if (this.keyState.left && this.canMoveLeft(currentTime)) {
-      this.playerState.targetPosition = Math.max(0, this.playerState.targetPosition - 1);
-      this.lastKeyTime.left = currentTime;
-    }
+    this.processBufferedPresses(currentTime, maxLanes);
 
-    // Handle right movement
-    if (this.keyState.right && this.canMoveRight(currentTime, maxLanes)) {
-      this.playerState.targetPosition = Math.min(maxLanes - 1, this.playerState.targetPosition + 1);
-      this.lastKeyTime.right = currentTime;
+    // Holding a direction keeps changing lanes once the repeat delay has passed
+    if (this.actionState.steerLeft && this.inputBuffer.length === 0 && this.canMoveLeft(currentTime)) {
+      this.moveLanes('left', 1, currentTime, maxLanes);
+    }
+    if (this.actionState.steerRight && this.inputBuffer.length === 0 && this.canMoveRight(currentTime, maxLanes)) {
+      this.moveLanes('right', 1, currentTime, maxLanes);
     }
 
     // Update moving state
     this.playerState.isMoving = Math.abs(this.playerState.position - this.playerState.targetPosition) > 0.01;
   }
 
+  /**
+   * Apply buffered presses in order: a dash right away, a single lane change once its direction's repeat delay has
+   * passed; presses older than the buffer window, or pushing against the edge of the track, are dropped
+   * A dash replaces the second press's single lane change rather than adding to it, so a double-tap moves dashLanes
+   * lanes in all
+   */
+  private processBufferedPresses(currentTime: number, maxLanes: number): void {
+    while (this.inputBuffer.length > 0) {
+      const press = this.inputBuffer[0];
+      const towardsEdge = press.direction === 'left'
+        ? this.playerState.targetPosition <= 0
+        : this.playerState.targetPosition >= maxLanes - 1;
+      if (currentTime - press.time > this.config.inputBufferWindow || towardsEdge) {
+        this.inputBuffer.shift();
+        continue;
+      }
+
+      const previousPress = this.lastPressTime[press.direction];
+      const isDash = this.config.dashEnabled && previousPress !== undefined &&
+                     press.time - previousPress <= this.config.dashTapWindow;
+      const canMove = press.direction === 'left'
+        ? this.canMoveLeft(currentTime)
+        : this.canMoveRight(currentTime, maxLanes);
+      if (!isDash && !canMove) return; // Wait; later presses stay queued behind this one
+
+      this.inputBuffer.shift();
+      // The first press of the double-tap has already moved its lane
+      const lanes = isDash ? Math.max(1, this.config.dashLanes - 1) : 1;
+      this.moveLanes(press.direction, lanes, currentTime, maxLanes);
+      this.playerState.isDashing = this.playerState.isDashing || isDash;
+
+      // A dash uses up the double-tap, so a third quick press starts a new one
+      if (isDash) {
+        delete this.lastPressTime[press.direction];
+      } else {
+        this.lastPressTime[press.direction] = press.time;
+      }
+    }
+  }
+
+  /**
+   * Momentum mode: presses only matter as double-taps, which kick the ship sideways
+   */
+  private processMomentumPresses(): void {
+    this.inputBuffer.forEach((press) => {
+      const previousPress = this.lastPressTime[press.direction];
+      const isDash = this.config.dashEnabled && previousPress !== undefined &&
+                     press.time - previousPress <= this.config.dashTapWindow;
+      if (!isDash) {
+        this.lastPressTime[press.direction] = press.time;
+        return;
+      }
+
+      const direction = press.direction === 'left' ? -1 : 1;
+      this.playerState.velocity = direction * this.config.maxLateralSpeed * this.config.dashSpeedMultiplier;
+      this.playerState.isDashing = true;
+      delete this.lastPressTime[press.direction];
+    });
+    this.inputBuffer = [];
+  }
+
+  /**
+   * Momentum mode: steering accelerates the ship sideways, grip bleeds off the speed it is not pushing,
+   * and the surface scales both (ice: slow to turn, slow to stop)
+   */
+  private updateMomentum(deltaTime: number, maxLanes: number): void {
+    const state = this.playerState;
+    const acceleration = this.config.lateralAcceleration * this.steeringMultiplier;
+    const grip = this.config.lateralGrip * this.steeringMultiplier;
+
+    // Held steering takes over from a pointer target
+    let steering = (this.actionState.steerRight ? 1 : 0) - (this.actionState.steerLeft ? 1 : 0);
+    if (steering !== 0) {
+      this.steeringTarget = null;
+    } else if (this.steeringTarget !== null) {
+      steering = this.getTargetSteering(this.steeringTarget, acceleration);
+    }
+
+    state.velocity += steering * acceleration * deltaTime;
+    if (steering === 0 || Math.sign(steering) !== Math.sign(state.velocity)) {
+      state.velocity *= Math.exp(-grip * deltaTime);
+    }
+    if (steering === 0 && Math.abs(state.velocity) < REST_SPEED) {
+      state.velocity = 0;
+    }
+
+    // A dash may exceed the top speed until grip brings the ship back under it
+    const maxSpeed = this.config.maxLateralSpeed * (state.isDashing ? this.config.dashSpeedMultiplier : 1);
+    state.velocity = Math.max(-maxSpeed, Math.min(maxSpeed, state.velocity));
+    if (Math.abs(state.velocity) <= this.config.maxLateralSpeed) {
+      state.isDashing = false;
+    }
+
+    state.position += state.velocity * deltaTime;
+
+    // The edges of the track stop the ship dead
+    if (state.position <= 0 || state.position >= maxLanes - 1) {
+      state.position = Math.max(0, Math.min(maxLanes - 1, state.position));
+      state.velocity = 0;
+      state.isDashing = false;
+    }
+
+    // Settle onto a pointer target once there
+    if (
+      this.steeringTarget !== null &&
+      Math.abs(this.steeringTarget - state.position) < TARGET_ARRIVAL_DISTANCE &&
+      Math.abs(state.velocity) < TARGET_ARRIVAL_SPEED
+    ) {
+      state.position = this.steeringTarget;
+      state.velocity = 0;
+      this.steeringTarget = null;
+    }
+
+    state.targetPosition = this.steeringTarget ?? state.position;
+    state.isMoving = state.velocity !== 0;
+  }
+
+  /**
+   * Steering (-1 to 1) that brings the ship to a stop on a target: full speed towards it,
+   * then braking in time to arrive without overshooting
+   */
+  private getTargetSteering(target: number, acceleration: number): number {
+    const distance = target - this.playerState.position;
+    const arrivalSpeed = Math.sqrt(2 * acceleration * Math.abs(distance));
+    const desiredVelocity = Math.sign(distance) * Math.min(this.config.maxLateralSpeed, arrivalSpeed);
+    const correction = (desiredVelocity - this.playerState.velocity) / (Math.max(acceleration, 1e-6) * TARGET_RESPONSE_TIME);
+    return Math.max(-1, Math.min(1, correction));
+  }
+
+  /**
+   * Take off on a buffered jump press, or follow the arc while airborne
+   * The arc is a parabola: height rises and falls symmetrically over jumpDuration
+   */
+  private updateJump(deltaTime: number): void {
+    const state = this.playerState;
+
+    if (!state.isAirborne) {
+      if (this.jumpPressTime === null) return;
+      const isFresh = this.clockMs - this.jumpPressTime <= this.config.inputBufferWindow;
+      this.jumpPressTime = null;
+      if (!isFresh) return;
+
+      state.isAirborne = true;
+      this.airTime = 0;
+    } else {
+      this.airTime += deltaTime;
+    }
+
+    const progress = this.airTime / Math.max(this.config.jumpDuration, 1e-6);
+    if (progress >= 1) {
+      this.land();
+      return;
+    }
+    state.height = 4 * this.config.jumpHeight * progress * (1 - progress);
+  }
+
+  /**
+   * Put the ship back on the road
+   */
+  private land(): void {
+    this.playerState.isAirborne = false;
+    this.playerState.height = 0;
+    this.airTime = 0;
+  }
+
+  /**
+   * Move the target a number of lanes in one direction, within the track
+   */
+  private moveLanes(direction: SteeringDirection, lanes: number, currentTime: number, maxLanes: number): void {
+    const offset = direction === 'left' ? -lanes : lanes;
+    this.playerState.targetPosition = Math.max(0, Math.min(maxLanes - 1, this.playerState.targetPosition + offset));
+    this.lastKeyTime[direction] = currentTime;
+  }
+
   /**
    * Update smooth movement interpolation
    */
@@ -177,21 +476,27 @@ export class PlayerController {
     if (!this.playerState.isMoving) return;
 
     const distance = this.playerState.targetPosition - this.playerState.position;
-    const maxDistance = this.config.maxMoveDistance;
+
+    // Scale per-frame tuning by elapsed reference frames so movement is frame-rate independent
+    const referenceFrames = deltaTime * REFERENCE_FPS * this.steeringMultiplier;
+    const dashMultiplier = this.playerState.isDashing ? this.config.dashSpeedMultiplier : 1;
+    const maxDistance = this.config.maxMoveDistance * referenceFrames * dashMultiplier;
+    const smoothing = 1 - Math.pow(1 - this.config.smoothingFactor, referenceFrames);
     
     // Calculate movement with speed limiting
-    let movement = distance * this.config.smoothingFactor;
+    let movement = distance * smoothing;
     movement = Math.max(-maxDistance, Math.min(maxDistance, movement));
     
     // Apply movement
     this.playerState.position += movement;
-    this.playerState.velocity = movement / deltaTime;
+    this.playerState.velocity = deltaTime > 0 ? movement / deltaTime : 0;
 
     // Stop moving if close enough to target
     if (Math.abs(distance) < 0.01) {
       this.playerState.position = this.playerState.targetPosition;
       this.playerState.velocity = 0;
       this.playerState.isMoving = false;
+      this.playerState.isDashing = false;
     }
   }
 
@@ -207,7 +512,7 @@ export class PlayerController {
    * Check if left movement is allowed (considering key repeat delay)
    */
   private canMoveLeft(currentTime: number): boolean {
-    return !this.lastKeyTime.left || 
+    return this.lastKeyTime.left === undefined || 
            currentTime - this.lastKeyTime.left >= this.config.keyRepeatDelay;
   }
 
@@ -216,124 +521,36 @@ export class PlayerController {
    */
   private canMoveRight(currentTime: number, maxLanes: number): boolean {
     return this.playerState.targetPosition < maxLanes - 1 &&
-           (!this.lastKeyTime.right || 
+           (this.lastKeyTime.right === undefined || 
             currentTime - this.lastKeyTime.right >= this.config.keyRepeatDelay);
   }
 
   /**
-   * Attach keyboard event listeners
-   */
-  private attachEventListeners(): void {
-    const keyDownHandler = (e: KeyboardEvent) => this.handleKeyDown(e);
-    const keyUpHandler = (e: KeyboardEvent) => this.handleKeyUp(e);
-    
-    window.addEventListener('keydown', keyDownHandler);
-    window.addEventListener('keyup', keyUpHandler);
-    
-    this.eventListeners = [
-      { type: 'keydown', handler: keyDownHandler as (e: Event) => void },
-      { type: 'keyup', handler: keyUpHandler as (e: Event) => void },
-    ];
-  }
-
-  /**
-   * Remove keyboard event listeners
+   * Release all held actions
    */
-  private detachEventListeners(): void {
-    this.eventListeners.forEach(({ type, handler }) => {
-      window.removeEventListener(type, handler);
-    });
-    this.eventListeners = [];
-  }
-
-  /**
-   * Handle keydown events
-   */
-  private handleKeyDown(e: KeyboardEvent): void {
-    // Prevent default behavior for game keys
-    if (this.isGameKey(e.key)) {
-      e.preventDefault();
-    }
-
-    switch (e.key.toLowerCase()) {
-      case 'arrowleft':
-      case 'a':
-        this.keyState.left = true;
-        break;
-      case 'arrowright':
-      case 'd':
-        this.keyState.right = true;
-        break;
-      case 'arrowup':
-      case 'w':
-        this.keyState.up = true;
-        break;
-      case 'arrowdown':
-      case 's':
-        this.keyState.down = true;
-        break;
-      case ' ':
-      case 'space':
-        this.keyState.space = true;
-        break;
-    }
-  }
-
-  /**
-   * Handle keyup events
-   */
-  private handleKeyUp(e: KeyboardEvent): void {
-    switch (e.key.toLowerCase()) {
-      case 'arrowleft':
-      case 'a':
-        this.keyState.left = false;
-        break;
-      case 'arrowright':
-      case 'd':
-        this.keyState.right = false;
-        break;
-      case 'arrowup':
-      case 'w':
-        this.keyState.up = false;
-        break;
-      case 'arrowdown':
-      case 's':
-        this.keyState.down = false;
-        break;
-      case ' ':
-      case 'space':
-        this.keyState.space = false;
-        break;
-    }
-  }
-
-  /**
-   * Check if a key is used for game controls
-   */
-  private isGameKey(key: string): boolean {
-    const gameKeys = ['arrowleft', 'arrowright', 'arrowup', 'arrowdown', ' ', 'a', 'd', 'w', 's'];
-    return gameKeys.includes(key.toLowerCase());
-  }
-
-  /**
-   * Reset all key states
-   */
-  private resetKeyState(): void {
-    this.keyState = {
-      left: false,
-      right: false,
-      up: false,
-      down: false,
-      space: false,
-    };
+  private resetActionState(): void {
+    this.actionState = createIdleActionState();
     this.lastKeyTime = {};
+    this.lastPressTime = {};
+    this.inputBuffer = [];
+    this.steeringTarget = null;
+    this.jumpPressTime = null;
   }
 
   /**
    * Update controller configuration
    */
   updateConfig(newConfig: Partial<PlayerControllerConfig>): void {
+    const previousMode = this.config.physicsMode;
     this.config = { ...this.config, ...newConfig };
+
+    // Switching modes mid-run settles the ship onto the nearest lane's course
+    if (this.config.physicsMode !== previousMode) {
+      this.playerState.targetPosition = Math.round(this.playerState.position);
+      this.playerState.velocity = 0;
+      this.playerState.isDashing = false;
+      this.steeringTarget = this.config.physicsMode === 'momentum' ? this.playerState.targetPosition : null;
+    }
   }
 
   /**
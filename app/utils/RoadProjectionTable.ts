@@ -0,0 +1,212 @@
+/**
+ * Road Projection Table - the road projected once per frame, shared by the road renderers
+ * Samples the road at fixed steps from behind the ship to the far plane, aligned with row edges, into numeric arrays.
+ * At a given distance ahead, screen Y and scale are the same for every lane and screen X is linear in the lane,
+ * so one sample serves every tile, line and ship corner at that distance without allocating
+ */
+
+import type { Camera, ProjectedPoint } from './Camera';
+import { FLAT_ROAD, STRAIGHT_ROAD, sampleRoadCurveOffsets, sampleRoadHeights } from './perspective';
+import type { RoadCurve, RoadElevation } from './perspective';
+
+export interface RoadProjectionTableConfig {
+  samplesPerRow: number; // Samples per row; row edges always fall on a sample
+  rowsBehind: number; // Rows behind the ship covered by the table, so road lines reach the bottom of the screen
+}
+
+// Default configuration: four samples per row keeps interpolated points within a fraction of a pixel
+const DEFAULT_CONFIG: RoadProjectionTableConfig = {
+  samplesPerRow: 4,
+  rowsBehind: 3,
+};
+
+export class RoadProjectionTable {
+  private config: RoadProjectionTableConfig;
+  private capacity: number = 0;
+  private sampleCount: number = 0;
+  private rowProgress: number = 0;
+  private drawDistance: number = 0;
+  private screenY: Float64Array = new Float64Array(0);
+  private leftX: Float64Array = new Float64Array(0); // Screen X of the track's left edge
+  private laneWidth: Float64Array = new Float64Array(0); // Pixels per lane
+  private scale: Float64Array = new Float64Array(0);
+  private rise: Float64Array = new Float64Array(0); // Pixels a point moves up the screen per row of height above the road
+  private visible: Uint8Array = new Uint8Array(0); // 1 between the near and far planes
+  private rowsAhead: Float64Array = new Float64Array(0); // Scratch: distance of each sample while building
+  private roadOffset: Float64Array = new Float64Array(0); // Scratch: road bend at each sample while building
+  private roadHeight: Float64Array = new Float64Array(0); // Scratch: road height at each sample while building
+  private scratch: ProjectedPoint = { x: 0, y: 0, depth: 0, scale: 0 };
+
+  constructor(config: Partial<RoadProjectionTableConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Project the road for this frame; arrays are only reallocated when the camera comes to see further
+   */
+  build(camera: Camera, rowProgress: number, road: RoadCurve = STRAIGHT_ROAD, elevation: RoadElevation = FLAT_ROAD): void {
+    const { samplesPerRow, rowsBehind } = this.config;
+    this.rowProgress = rowProgress;
+    this.drawDistance = camera.getDrawDistance();
+    this.sampleCount = Math.ceil((this.drawDistance + rowsBehind + 1) * samplesPerRow) + 1;
+    this.ensureCapacity(this.sampleCount);
+
+    // Road shape for every sample first, so the loop below reads numbers from arrays rather than calling for them
+    const { rowsAhead, roadOffset, roadHeight } = this;
+    for (let index = 0; index < this.sampleCount; index++) {
+      rowsAhead[index] = index / samplesPerRow - rowsBehind - rowProgress;
+    }
+    sampleRoadCurveOffsets(road, rowsAhead, this.sampleCount, roadOffset);
+    sampleRoadHeights(elevation, rowsAhead, this.sampleCount, roadHeight);
+
+    const point = this.scratch;
+    for (let index = 0; index < this.sampleCount; index++) {
+      if (!camera.projectInto(point, roadOffset[index], rowsAhead[index], roadHeight[index])) {
+        this.visible[index] = 0;
+        continue;
+      }
+      this.visible[index] = 1;
+      this.screenY[index] = point.y;
+      this.leftX[index] = point.x;
+      this.scale[index] = point.scale;
+
+      camera.projectInto(point, roadOffset[index] + 1, rowsAhead[index], roadHeight[index]);
+      this.laneWidth[index] = point.x - this.leftX[index];
+
+      this.rise[index] = camera.projectInto(point, roadOffset[index], rowsAhead[index], roadHeight[index] + 1)
+        ? this.screenY[index] - point.y
+        : 0;
+    }
+  }
+
+  /**
+   * Rows ahead of the ship where level road reaches the far plane, as of the last build
+   */
+  getDrawDistance(): number {
+    return this.drawDistance;
+  }
+
+  /**
+   * Number of samples in the table
+   */
+  getSampleCount(): number {
+    return this.sampleCount;
+  }
+
+  /**
+   * Rows ahead of the ship of a sample
+   */
+  getSampleRowsAhead(index: number): number {
+    return index / this.config.samplesPerRow - this.config.rowsBehind - this.rowProgress;
+  }
+
+  /**
+   * Whether a sample lies between the camera's near and far planes
+   */
+  isSampleVisible(index: number): boolean {
+    return this.visible[index] === 1;
+  }
+
+  /**
+   * Screen X of a lane position at a sample
+   */
+  getSampleX(index: number, lane: number): number {
+    return this.leftX[index] + lane * this.laneWidth[index];
+  }
+
+  /**
+   * Screen Y of the road at a sample
+   */
+  getSampleY(index: number): number {
+    return this.screenY[index];
+  }
+
+  /**
+   * Whether a distance ahead of the ship, in rows, is inside the table and between the near and far planes
+   */
+  isVisible(rowsAhead: number): boolean {
+    const position = this.getPosition(rowsAhead);
+    if (position < 0 || position > this.sampleCount - 1) return false;
+
+    const index = Math.floor(position);
+    return this.visible[index] === 1 && (index === position || this.visible[index + 1] === 1);
+  }
+
+  /**
+   * Screen X of a point on the road; only meaningful where isVisible
+   */
+  getX(lane: number, rowsAhead: number): number {
+    // Both arrays share one position lookup; renderers call this for every tile corner, so it is kept small enough to inline
+    const position = this.getClampedPosition(rowsAhead);
+    const index = Math.floor(position);
+    const next = index === position ? index : index + 1;
+    const fraction = position - index;
+    const left = this.leftX[index] + (this.leftX[next] - this.leftX[index]) * fraction;
+    const laneWidth = this.laneWidth[index] + (this.laneWidth[next] - this.laneWidth[index]) * fraction;
+    return left + lane * laneWidth;
+  }
+
+  /**
+   * Screen Y of the road at a distance ahead of the ship; only meaningful where isVisible
+   */
+  getY(rowsAhead: number): number {
+    return this.interpolate(this.screenY, rowsAhead);
+  }
+
+  /**
+   * Size of objects on the road at a distance ahead of the ship (see ProjectedPoint.scale); only meaningful where isVisible
+   */
+  getScale(rowsAhead: number): number {
+    return this.interpolate(this.scale, rowsAhead);
+  }
+
+  /**
+   * Pixels a point at some height above the road sits above the road on screen (e.g. a jumping ship); only meaningful where isVisible
+   */
+  getLift(rowsAhead: number, height: number): number {
+    return height * this.interpolate(this.rise, rowsAhead);
+  }
+
+  /**
+   * Fractional sample index of a distance ahead of the ship
+   */
+  private getPosition(rowsAhead: number): number {
+    return (rowsAhead + this.rowProgress + this.config.rowsBehind) * this.config.samplesPerRow;
+  }
+
+  /**
+   * Fractional sample index of a distance ahead of the ship, held to the table
+   */
+  private getClampedPosition(rowsAhead: number): number {
+    return Math.max(0, Math.min(this.sampleCount - 1, this.getPosition(rowsAhead)));
+  }
+
+  /**
+   * Linear interpolation between the two samples around a distance; exact on samples, including every row edge
+   */
+  private interpolate(values: Float64Array, rowsAhead: number): number {
+    const position = this.getClampedPosition(rowsAhead);
+    const index = Math.floor(position);
+    const fraction = position - index;
+    if (fraction === 0) return values[index];
+    return values[index] + (values[index + 1] - values[index]) * fraction;
+  }
+
+  /**
+   * Grow the arrays to hold at least the given number of samples
+   */
+  private ensureCapacity(sampleCount: number): void {
+    if (sampleCount <= this.capacity) return;
+
+    this.capacity = sampleCount;
+    this.screenY = new Float64Array(sampleCount);
+    this.leftX = new Float64Array(sampleCount);
+    this.laneWidth = new Float64Array(sampleCount);
+    this.scale = new Float64Array(sampleCount);
+    this.rise = new Float64Array(sampleCount);
+    this.visible = new Uint8Array(sampleCount);
+    this.rowsAhead = new Float64Array(sampleCount);
+    this.roadOffset = new Float64Array(sampleCount);
+    this.roadHeight = new Float64Array(sampleCount);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Seeded Random - Deterministic pseudo-random number generator
+ * Uses the mulberry32 algorithm so a single 32-bit seed always reproduces the same sequence
+ */
+
+const MAX_SEED = 0xffffffff;
+
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.createSeed()) {
+    this.seed = SeededRandom.normalizeSeed(seed);
+    this.state = this.seed;
+  }
+
+  /**
+   * Create a fresh seed for runs that do not request a specific one
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * MAX_SEED);
+  }
+
+  /**
+   * Parse a seed from user input (URL parameter, bug report, etc.)
+   * Returns null when the value is not a usable non-negative integer
+   */
+  static parseSeed(value: string | null | undefined): number | null {
+    if (value === null || value === undefined || value.trim() === '') return null;
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0 || parsed > MAX_SEED) return null;
+
+    return parsed;
+  }
+
+  /**
+   * Coerce any number into the unsigned 32-bit range used by the generator
+   */
+  private static normalizeSeed(seed: number): number {
+    return Number.isFinite(seed) ? Math.floor(Math.abs(seed)) >>> 0 : 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next integer in [min, max] (inclusive)
+   */
+  nextInt(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Returns true with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Get the seed this sequence was started from
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Restart the sequence, optionally from a new seed
+   */
+  reset(seed: number = this.seed): void {
+    this.seed = SeededRandom.normalizeSeed(seed);
+    this.state = this.seed;
+  }
+}
@@ -19,6 +19,11 @@ export interface SpeedState {
   skillBonus: number;
   temporaryBoost: number;
   boostTimeRemaining: number;
+  heldBoost: number; // Speed added by the player's held boost; the only boost allowed past maxSpeed
+  speedPenalty: number; // Multiplier from slow zones (1 = no penalty)
+  penaltyTimeRemaining: number;
+  brakeFactor: number; // Multiplier from the player's brake (1 = not braking)
+  brakeTarget: number; // Multiplier the brake is easing towards
   difficultyLevel: number;
   totalTimeElapsed: number;
   performanceScore: number;
@@ -34,7 +39,7 @@ export interface PerformanceMetrics {
 }
 
 // Speed progression presets
-const SPEED_PRESETS = {
+export const SPEED_PRESETS = {
   arcade: {
     baseSpeed: 200,
     maxSpeed: 800,
@@ -73,6 +78,8 @@ const SPEED_PRESETS = {
   }
 };
 
+// Milliseconds for the brake to fully bite or fully release
+const BRAKE_EASE_TIME = 250;
 
 export class SpeedProgressionSystem {
   private config: SpeedConfig;
@@ -93,6 +100,11 @@ export class SpeedProgressionSystem {
       skillBonus: 0,
       temporaryBoost: 0,
       boostTimeRemaining: 0,
+      heldBoost: 0,
+      speedPenalty: 1,
+      penaltyTimeRemaining: 0,
+      brakeFactor: 1,
+      brakeTarget: 1,
       difficultyLevel: 1,
       totalTimeElapsed: 0,
       performanceScore: 0
@@ -118,6 +130,8 @@ export class SpeedProgressionSystem {
     this.updateBaseProgression();
     this.updateSkillBonus(deltaTime);
     this.updateTemporaryBoosts(deltaTime);
+    this.updateSpeedPenalty(deltaTime);
+    this.updateBrake(deltaTime);
     this.updateDifficultyScaling();
     
     this.calculateFinalSpeed();
@@ -205,6 +219,29 @@ export class SpeedProgressionSystem {
     }
   }
 
+  /**
+   * Update temporary speed penalties
+   */
+  private updateSpeedPenalty(deltaTime: number): void {
+    if (this.state.penaltyTimeRemaining > 0) {
+      this.state.penaltyTimeRemaining -= deltaTime;
+
+      if (this.state.penaltyTimeRemaining <= 0) {
+        this.state.speedPenalty = 1;
+        this.state.penaltyTimeRemaining = 0;
+      }
+    }
+  }
+
+  /**
+   * Ease the brake towards its target, so braking and releasing never jolt the speed
+   */
+  private updateBrake(deltaTime: number): void {
+    const maxChange = deltaTime / BRAKE_EASE_TIME;
+    const difference = this.state.brakeTarget - this.state.brakeFactor;
+    this.state.brakeFactor += Math.max(-maxChange, Math.min(maxChange, difference));
+  }
+
   /**
    * Update difficulty-based scaling
    */
@@ -231,6 +268,12 @@ export class SpeedProgressionSystem {
     
     // Ensure minimum speed
     this.state.currentSpeed = Math.max(this.state.currentSpeed, this.config.baseSpeed * 0.8);
+
+    // The held boost goes on top of the cap so spending the meter is felt at top speed; boost pads stay under it
+    this.state.currentSpeed += this.state.heldBoost;
+
+    // Slow zones and the brake act after the floor so they are always felt
+    this.state.currentSpeed *= this.state.speedPenalty * this.state.brakeFactor;
   }
 
   /**
@@ -265,6 +308,36 @@ export class SpeedProgressionSystem {
     }
   }
 
+  /**
+   * Set the player's held boost: the speed multiplier to apply, or 1 to release it
+   * Kept apart from timed boosts, so holding or releasing it never changes a boost pad's
+   */
+  setBoost(multiplier: number): void {
+    this.state.heldBoost = this.config.baseSpeed * (Math.max(1, multiplier) - 1);
+  }
+
+  /**
+   * Apply temporary speed penalty (slow zones); the strongest active penalty wins
+   */
+  applySpeedPenalty(multiplier: number = 0.6, duration: number = 1000): void {
+    const clampedMultiplier = Math.max(0.1, Math.min(1, multiplier));
+
+    if (clampedMultiplier < this.state.speedPenalty) {
+      this.state.speedPenalty = clampedMultiplier;
+      this.state.penaltyTimeRemaining = duration;
+    } else {
+      // Extend duration of current penalty
+      this.state.penaltyTimeRemaining = Math.max(this.state.penaltyTimeRemaining, duration);
+    }
+  }
+
+  /**
+   * Set the player's brake: the multiplier to ease towards, or 1 to release it
+   */
+  setBrake(multiplier: number): void {
+    this.state.brakeTarget = Math.max(0.1, Math.min(1, multiplier));
+  }
+
   /**
    * Record perfect turn for skill bonus
    */
@@ -325,7 +398,7 @@ export class SpeedProgressionSystem {
     return {
       base: this.state.baseProgressionSpeed,
       skill: this.state.skillBonus,
-      boost: this.state.temporaryBoost,
+      boost: this.state.temporaryBoost + this.state.heldBoost,
       difficulty: difficultyMultiplier,
       total: this.state.currentSpeed
     };
@@ -341,6 +414,11 @@ export class SpeedProgressionSystem {
       skillBonus: 0,
       temporaryBoost: 0,
       boostTimeRemaining: 0,
+      heldBoost: 0,
+      speedPenalty: 1,
+      penaltyTimeRemaining: 0,
+      brakeFactor: 1,
+      brakeTarget: 1,
       difficultyLevel: 1,
       totalTimeElapsed: 0,
       performanceScore: 0
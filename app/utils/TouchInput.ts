@@ -0,0 +1,128 @@
+/**
+ * Touch Input - Tap and swipe lane changes for phones
+ * A quick tap on the left or right half of the element moves one lane that way;
+ * a horizontal swipe moves one lane per stretch of its length, so a long swipe crosses several lanes
+ */
+
+export interface TouchInputConfig {
+  tapMaxDuration: number; // Milliseconds a touch may last and still count as a tap
+  tapMaxDistance: number; // Movement a tap may have, as a ratio of the element width
+  swipeMinDistance: number; // Horizontal movement that makes a swipe, as a ratio of the element width
+  swipeLaneDistance: number; // Horizontal movement per lane crossed, as a ratio of the element width
+  maxSwipeLanes: number; // Most lanes one swipe can cross
+}
+
+// Default configuration, tuned for thumbs on a phone in landscape
+const DEFAULT_CONFIG: TouchInputConfig = {
+  tapMaxDuration: 300,
+  tapMaxDistance: 0.04,
+  swipeMinDistance: 0.06,
+  swipeLaneDistance: 0.12,
+  maxSwipeLanes: 6,
+};
+
+export class TouchInput {
+  private config: TouchInputConfig;
+  private element: HTMLElement | null = null;
+  private touches: Map<number, { x: number; y: number; time: number }> = new Map(); // Active touches by pointer id
+  private eventListeners: { type: string; handler: (e: Event) => void }[] = [];
+  private onLaneChange: ((lanes: number) => void) | null = null;
+
+  constructor(config: Partial<TouchInputConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start reading touches on an element; lanes is negative for left, positive for right
+   * Mouse and pen input is left to other handlers
+   */
+  attach(element: HTMLElement, onLaneChange: (lanes: number) => void): void {
+    this.detach();
+    this.element = element;
+    this.onLaneChange = onLaneChange;
+
+    const downHandler = (e: PointerEvent) => this.handlePointerDown(e);
+    const upHandler = (e: PointerEvent) => this.handlePointerUp(e);
+    const cancelHandler = (e: PointerEvent) => {
+      this.touches.delete(e.pointerId);
+    };
+
+    element.addEventListener('pointerdown', downHandler);
+    element.addEventListener('pointerup', upHandler);
+    element.addEventListener('pointercancel', cancelHandler);
+
+    this.eventListeners = [
+      { type: 'pointerdown', handler: downHandler as (e: Event) => void },
+      { type: 'pointerup', handler: upHandler as (e: Event) => void },
+      { type: 'pointercancel', handler: cancelHandler as (e: Event) => void },
+    ];
+  }
+
+  /**
+   * Stop reading touches
+   */
+  detach(): void {
+    const element = this.element;
+    if (element) {
+      this.eventListeners.forEach(({ type, handler }) => {
+        element.removeEventListener(type, handler);
+      });
+    }
+    this.eventListeners = [];
+    this.element = null;
+    this.onLaneChange = null;
+    this.touches.clear();
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(newConfig: Partial<TouchInputConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * Remember where and when a touch started
+   */
+  private handlePointerDown(e: PointerEvent): void {
+    if (e.pointerType !== 'touch') return;
+    e.preventDefault();
+    this.touches.set(e.pointerId, { x: e.clientX, y: e.clientY, time: e.timeStamp });
+  }
+
+  /**
+   * Turn a finished touch into a lane change: a swipe, a tap, or nothing (a slow press or a vertical drag)
+   */
+  private handlePointerUp(e: PointerEvent): void {
+    const start = this.touches.get(e.pointerId);
+    this.touches.delete(e.pointerId);
+    if (!start || !this.element || !this.onLaneChange) return;
+
+    try {
+      e.preventDefault();
+      const rect = this.element.getBoundingClientRect();
+      if (rect.width <= 0) return;
+
+      const deltaX = (e.clientX - start.x) / rect.width;
+      const deltaY = (e.clientY - start.y) / rect.width;
+      const distance = Math.hypot(deltaX, deltaY);
+
+      // Swipe: mostly sideways, one lane per stretch of its length
+      if (Math.abs(deltaX) >= this.config.swipeMinDistance && Math.abs(deltaX) > Math.abs(deltaY)) {
+        const lanes = Math.min(
+          this.config.maxSwipeLanes,
+          Math.max(1, Math.round(Math.abs(deltaX) / this.config.swipeLaneDistance))
+        );
+        this.onLaneChange(Math.sign(deltaX) * lanes);
+        return;
+      }
+
+      // Tap: short and still, on one half of the element
+      if (e.timeStamp - start.time <= this.config.tapMaxDuration && distance <= this.config.tapMaxDistance) {
+        this.onLaneChange(start.x < rect.left + rect.width / 2 ? -1 : 1);
+      }
+    } catch (error) {
+      console.error('Error handling touch input:', error);
+    }
+  }
+}
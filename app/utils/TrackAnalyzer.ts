@@ -0,0 +1,346 @@
+/**
+ * Track Analyzer - Checks that a row sequence can actually be followed at a given speed
+ * Measures the PlayerController's lane-change timing (the slowest of the given tunings, by default every ship
+ * in every physics mode), converts it to rows at the checked speed,
+ * and walks the track keeping the set of lanes the ship can be settled on at each row.
+ * Works incrementally (the generator repairs rows as it produces them) or on a whole course (level validation).
+ * Gap rows are jumped: the ship keeps the lanes it took off from, and cannot change lanes across them.
+ */
+
+import { PlayerController } from './PlayerController';
+import type { PlayerControllerConfig } from './PlayerController';
+import { SPEED_PRESETS } from './SpeedProgressionSystem';
+import { WORLD_UNITS, speedToRowsPerSecond } from './worldUnits';
+import { getTileKindEffect } from './tileKinds';
+import { ALL_SHIP_HANDLINGS } from './shipProfiles';
+import { obstacleCoversLane } from './obstacles';
+import type { TrackRowData } from './TrackBuffer';
+
+export interface TrackAnalyzerConfig {
+  nbColumns: number;
+  speed: number; // Speed units the track is checked at; defaults to the arcade top speed (worst case; only the player's held boost goes past it)
+  shipTolerance: number; // Lateral distance from a lane that still counts as on it (matches CollisionDetector)
+  controllers: Partial<PlayerControllerConfig>[]; // Controller tunings to measure; the track must suit the slowest
+  stepSize: number; // Simulation step used when measuring the controller, in seconds
+}
+
+export type RowIssueReason = 'no-free-lane' | 'unreachable';
+
+export interface RowIssue {
+  y: number; // Row index as given in the analyzed rows
+  reason: RowIssueReason;
+  reachableBefore: number[]; // Lanes the ship could be on just before this row
+}
+
+export interface TrackAnalysis {
+  passable: boolean;
+  issues: RowIssue[];
+  reachableLanes: number[][]; // Per analyzed row, the lanes the ship can be settled on
+}
+
+/**
+ * Lane-change timing expressed in rows at the analyzed speed
+ */
+export interface LaneChangeRows {
+  settleRows: number; // Rows spent between two lanes during one lane change
+  repeatRows: number; // Rows between two key presses (key repeat delay)
+}
+
+// Lanes the ship can be settled on, mapped to rows left before the next lane change may start
+type SettledLanes = Map<number, number>;
+
+interface AnalyzedRow {
+  free: Set<number>; // Lanes with a tile and no obstacle
+  settled: SettledLanes;
+  steering: Map<number, number>; // Steering multiplier of each free lane (ice is slower)
+  gap: boolean; // Jumped over rather than driven on
+}
+
+// Default configuration: the arcade preset's top speed with every ship the player can pick
+const DEFAULT_CONFIG: TrackAnalyzerConfig = {
+  nbColumns: WORLD_UNITS.NB_COLUMNS,
+  speed: SPEED_PRESETS.arcade.maxSpeed,
+  shipTolerance: 0.4,
+  controllers: ALL_SHIP_HANDLINGS,
+  stepSize: 1 / 120,
+};
+
+// Longest lane change measured before giving up (seconds)
+const MAX_MEASURED_TIME = 5;
+
+export class TrackAnalyzer {
+  private config: TrackAnalyzerConfig;
+  private history: AnalyzedRow[]; // Most recent rows, oldest first
+  private settleTimeCache: Map<number, number>; // Steering multiplier -> seconds to settle on the next lane
+  private repeatTime: number;
+
+  constructor(config: Partial<TrackAnalyzerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.settleTimeCache = new Map();
+    this.repeatTime = Math.max(
+      ...this.getControllerConfigs().map((controller) => new PlayerController(controller).getConfig().keyRepeatDelay / 1000)
+    );
+    this.history = [];
+    this.reset();
+  }
+
+  /**
+   * Start over with the ship settled on startLane (defaults to the center lane)
+   */
+  reset(startLane: number = Math.floor(this.config.nbColumns / 2)): void {
+    // Virtual row before the track: every lane is open and the ship sits on startLane
+    const allLanes = new Set(Array.from({ length: this.config.nbColumns }, (_, lane) => lane));
+    this.history = [{
+      free: allLanes,
+      settled: new Map([[startLane, 0]]),
+      steering: new Map(Array.from(allLanes, (lane) => [lane, 1])),
+      gap: false,
+    }];
+  }
+
+  /**
+   * Whether the ship can still be on the track after this row
+   */
+  canAppend(row: TrackRowData): boolean {
+    return this.computeSettled(this.describeRow(row)).size > 0;
+  }
+
+  /**
+   * Add a row; returns false when it cannot be reached (analysis then continues from the row's own lanes)
+   */
+  append(row: TrackRowData): boolean {
+    const analyzed = this.describeRow(row);
+    analyzed.settled = this.computeSettled(analyzed);
+
+    const reachable = analyzed.settled.size > 0;
+    if (!reachable) {
+      // Carry on as if the ship had made it, so one bad row does not hide later ones
+      const previous = this.history[this.history.length - 1];
+      analyzed.settled = analyzed.free.size > 0
+        ? new Map(Array.from(analyzed.free, (lane) => [lane, 0]))
+        : new Map(previous.settled);
+    }
+
+    this.history.push(analyzed);
+    const keep = this.getLaneChangeRows(this.getSlowestSteering()).settleRows + 1;
+    if (this.history.length > keep) {
+      this.history.splice(0, this.history.length - keep);
+    }
+
+    return reachable;
+  }
+
+  /**
+   * Return a version of the row the ship can reach: obstacles are dropped first,
+   * then tiles are bridged from the nearest reachable lane. The input row is not modified.
+   */
+  repairRow(row: TrackRowData): TrackRowData {
+    if (this.canAppend(row)) return row;
+
+    const withoutObstacles: TrackRowData = { ...row, obstacles: [] };
+    if (row.obstacles.length > 0 && this.canAppend(withoutObstacles)) return withoutObstacles;
+
+    // Staying on a lane the ship already holds is always possible, so bridge from the closest one
+    const tiles = row.tiles.map((tile) => ({ ...tile }));
+    const lanes = new Set(tiles.map((tile) => tile.x));
+    const held = this.getReachableLanes();
+    if (held.length === 0) return withoutObstacles;
+    const anchor = held.reduce((best, lane) =>
+      this.distanceToLanes(lane, lanes) < this.distanceToLanes(best, lanes) ? lane : best
+    , held[0]);
+    const target = Array.from(lanes).reduce((best, lane) =>
+      Math.abs(lane - anchor) < Math.abs(best - anchor) ? lane : best
+    , anchor);
+
+    for (let x = Math.min(anchor, target); x <= Math.max(anchor, target); x++) {
+      if (!lanes.has(x)) {
+        tiles.push({ x, y: row.y });
+        lanes.add(x);
+      }
+    }
+    tiles.sort((a, b) => a.x - b.x);
+
+    return { ...row, tiles, obstacles: [] };
+  }
+
+  /**
+   * Analyze a whole course from a fresh start
+   */
+  analyze(rows: readonly TrackRowData[], startLane?: number): TrackAnalysis {
+    this.reset(startLane);
+    const issues: RowIssue[] = [];
+    const reachableLanes: number[][] = [];
+
+    rows.forEach((row) => {
+      const reachableBefore = this.getReachableLanes();
+      const hasFreeLane = this.describeRow(row).free.size > 0;
+      if (!this.append(row)) {
+        issues.push({ y: row.y, reason: hasFreeLane ? 'unreachable' : 'no-free-lane', reachableBefore });
+        reachableLanes.push([]);
+      } else {
+        reachableLanes.push(this.getReachableLanes());
+      }
+    });
+
+    return { passable: issues.length === 0, issues, reachableLanes };
+  }
+
+  /**
+   * Lanes the ship can be settled on after the last appended row
+   */
+  getReachableLanes(): number[] {
+    const last = this.history[this.history.length - 1];
+    return Array.from(last.settled.keys()).sort((a, b) => a - b);
+  }
+
+  /**
+   * Lane-change timing in rows at the analyzed speed, for a given steering multiplier
+   */
+  getLaneChangeRows(steeringMultiplier: number = 1): LaneChangeRows {
+    const rowTime = 1 / Math.max(speedToRowsPerSecond(this.config.speed), 1e-6);
+    return {
+      settleRows: Math.max(1, Math.ceil(this.getSettleTime(steeringMultiplier) / rowTime)),
+      repeatRows: Math.max(1, Math.ceil(this.repeatTime / rowTime)),
+    };
+  }
+
+  /**
+   * Get analyzer configuration
+   */
+  getConfig(): TrackAnalyzerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Settled lanes for a new row, from staying put or finishing a lane change that started earlier
+   */
+  private computeSettled(row: AnalyzedRow): SettledLanes {
+    const settled: SettledLanes = new Map();
+    const previous = this.history[this.history.length - 1];
+
+    // Over a gap the ship flies on in the lanes it took off from
+    if (row.gap) {
+      previous.settled.forEach((cooldown, lane) => settled.set(lane, Math.max(0, cooldown - 1)));
+      return settled;
+    }
+
+    const keep = (lane: number, cooldown: number) => {
+      const current = settled.get(lane);
+      if (current === undefined || cooldown < current) settled.set(lane, cooldown);
+    };
+
+    // Stay on a lane that continues into this row
+    previous.settled.forEach((cooldown, lane) => {
+      if (row.free.has(lane)) keep(lane, Math.max(0, cooldown - 1));
+    });
+
+    // Land a lane change that started settleRows ago; both lanes must stay open while in between
+    for (let start = this.history.length - 1; start >= 0; start--) {
+      const startRow = this.history[start];
+      const elapsed = this.history.length - start;
+
+      startRow.settled.forEach((cooldown, lane) => {
+        if (cooldown > 0) return;
+        const { settleRows, repeatRows } = this.getLaneChangeRows(startRow.steering.get(lane) ?? 1);
+        if (settleRows !== elapsed) return;
+
+        [lane - 1, lane + 1].forEach((target) => {
+          if (!row.free.has(target)) return;
+          for (let transit = start; transit < this.history.length; transit++) {
+            const { free } = this.history[transit];
+            if (!free.has(lane) || !free.has(target)) return;
+          }
+          keep(target, Math.max(0, repeatRows - settleRows));
+        });
+      });
+    }
+
+    return settled;
+  }
+
+  /**
+   * Free lanes and steering of a row
+   */
+  private describeRow(row: TrackRowData): AnalyzedRow {
+    const free = new Set<number>();
+    const steering = new Map<number, number>();
+
+    row.tiles.forEach((tile) => {
+      if (tile.x < 0 || tile.x >= this.config.nbColumns) return;
+      if (row.obstacles.some((obstacle) => obstacleCoversLane(obstacle, tile.x))) return;
+      free.add(tile.x);
+      steering.set(tile.x, getTileKindEffect(tile.kind).steeringMultiplier ?? 1);
+    });
+
+    return { free, settled: new Map(), steering, gap: row.gap === true };
+  }
+
+  /**
+   * Seconds for the slowest controller to get within tolerance of the next lane
+   */
+  private getSettleTime(steeringMultiplier: number): number {
+    const cached = this.settleTimeCache.get(steeringMultiplier);
+    if (cached !== undefined) return cached;
+
+    const time = Math.max(
+      ...this.getControllerConfigs().map((controller) => this.measureSettleTime(controller, steeringMultiplier))
+    );
+    this.settleTimeCache.set(steeringMultiplier, time);
+    return time;
+  }
+
+  /**
+   * Seconds for one controller to get within tolerance of the next lane: after one key press in lane mode,
+   * or steering to the lane (accelerating, then braking onto it) in momentum mode
+   */
+  private measureSettleTime(config: Partial<PlayerControllerConfig>, steeringMultiplier: number): number {
+    const controller = new PlayerController(config);
+    controller.initialize(0);
+    controller.setSteeringMultiplier(steeringMultiplier);
+    if (controller.getConfig().physicsMode === 'momentum') {
+      controller.setTargetPosition(1, 2);
+    } else {
+      controller.setActionState({ steerRight: true });
+    }
+
+    let time = 0;
+    let position = 0;
+    while (Math.abs(1 - position) > this.config.shipTolerance && time < MAX_MEASURED_TIME) {
+      position = controller.update(this.config.stepSize, 2).position;
+      controller.setActionState({ steerRight: false }); // A single press
+      time += this.config.stepSize;
+    }
+    controller.cleanup();
+
+    return time;
+  }
+
+  /**
+   * Lowest steering multiplier among recent rows (decides how much history is needed)
+   */
+  private getSlowestSteering(): number {
+    let slowest = 1;
+    this.history.forEach((row) => row.steering.forEach((value) => {
+      slowest = Math.min(slowest, value);
+    }));
+    return slowest;
+  }
+
+  /**
+   * Distance from a lane to the closest lane of a set
+   */
+  private distanceToLanes(lane: number, lanes: Set<number>): number {
+    let best = Infinity;
+    lanes.forEach((candidate) => {
+      best = Math.min(best, Math.abs(candidate - lane));
+    });
+    return best;
+  }
+
+  /**
+   * Controller tunings to measure, falling back to the stock controller
+   */
+  private getControllerConfigs(): Partial<PlayerControllerConfig>[] {
+    return this.config.controllers.length > 0 ? this.config.controllers : [{}];
+  }
+}
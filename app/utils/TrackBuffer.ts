@@ -0,0 +1,218 @@
+/**
+ * Track Buffer - Row-indexed ring buffer holding the path tiles around the ship
+ * Lives outside React state and gives O(1) row lookups to collision detection and rendering
+ */
+
+import type { TileCoordinate, TileRowLookup } from './CollisionDetection';
+import type { Obstacle } from './obstacles';
+
+/**
+ * Everything known about a single track row
+ */
+export interface TrackRowData {
+  y: number;
+  tiles: TileCoordinate[];
+  obstacles: Obstacle[];
+  curve?: number; // Road bend in lanes per row per row (see WORLD_UNITS.MAX_CURVE); straight when omitted
+  elevation?: number; // Height of the row's near edge in rows (see WORLD_UNITS.MAX_ELEVATION); level when omitted
+  gap?: boolean; // Deliberate gap with no tiles, to be jumped; an empty row without it is treated leniently
+}
+
+/**
+ * Anything that can feed rows into the buffer: the endless generator or a hand-authored level
+ */
+export interface TrackRowSource {
+  restart(startY: number, seed: number): void; // Start over so the next row gets index startY
+  generateRow(): TrackRowData | null; // Next row, or null once the source has run out
+  isFinished(): boolean; // Whether every row has been produced
+}
+
+const EMPTY_ROW: readonly TileCoordinate[] = Object.freeze([]);
+const EMPTY_OBSTACLES: readonly Obstacle[] = Object.freeze([]);
+
+const createEmptyRow = (y: number): TrackRowData => ({ y, tiles: [], obstacles: [] });
+
+export class TrackBuffer implements TileRowLookup {
+  private rows: TrackRowData[];
+  private capacity: number;
+  private firstY: number; // Oldest row still buffered
+  private endY: number; // One past the newest row
+  private tileCount: number;
+
+  constructor(capacity: number = 128, startY: number = 0) {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error(`TrackBuffer capacity must be a positive integer, got ${capacity}`);
+    }
+
+    this.capacity = capacity;
+    this.rows = Array.from({ length: capacity }, () => createEmptyRow(startY));
+    this.firstY = startY;
+    this.endY = startY;
+    this.tileCount = 0;
+  }
+
+  /**
+   * Remove every row; the next pushed row gets index startY
+   */
+  clear(startY: number = 0): void {
+    for (let i = 0; i < this.capacity; i++) {
+      this.rows[i] = createEmptyRow(startY);
+    }
+    this.firstY = startY;
+    this.endY = startY;
+    this.tileCount = 0;
+  }
+
+  /**
+   * Append the next row; its index and all of its tiles must be at getEndRowY()
+   */
+  pushRow(row: TrackRowData): void {
+    if (this.getRowCount() >= this.capacity) {
+      throw new Error(`TrackBuffer is full (${this.capacity} rows); drop old rows before pushing`);
+    }
+
+    const y = this.endY;
+    const misplaced = row.tiles.find((tile) => tile.y !== y);
+    if (row.y !== y || misplaced) {
+      throw new Error(`Row ${misplaced ? misplaced.y : row.y} pushed into row ${y}`);
+    }
+
+    this.rows[this.slot(y)] = row;
+    this.tileCount += row.tiles.length;
+    this.endY++;
+  }
+
+  /**
+   * Tiles of a row, or an empty row when it is not buffered
+   */
+  getRow(y: number): readonly TileCoordinate[] {
+    if (!this.hasRow(y)) return EMPTY_ROW;
+    return this.rows[this.slot(y)].tiles;
+  }
+
+  /**
+   * Obstacles standing on a row
+   */
+  getObstacles(y: number): readonly Obstacle[] {
+    if (!this.hasRow(y)) return EMPTY_OBSTACLES;
+    return this.rows[this.slot(y)].obstacles;
+  }
+
+  /**
+   * Whether a row is a deliberate gap
+   */
+  isGapRow(y: number): boolean {
+    if (!this.hasRow(y)) return false;
+    return this.rows[this.slot(y)].gap === true;
+  }
+
+  /**
+   * Road bend of a row (0 when straight or not buffered)
+   */
+  getCurve(y: number): number {
+    if (!this.hasRow(y)) return 0;
+    return this.rows[this.slot(y)].curve ?? 0;
+  }
+
+  /**
+   * Height of a row's near edge (0 when level or not buffered)
+   */
+  getElevation(y: number): number {
+    if (!this.hasRow(y)) return 0;
+    return this.rows[this.slot(y)].elevation ?? 0;
+  }
+
+  /**
+   * Full row data, or null when the row is not buffered
+   */
+  getRowData(y: number): Readonly<TrackRowData> | null {
+    if (!this.hasRow(y)) return null;
+    return this.rows[this.slot(y)];
+  }
+
+  /**
+   * Replace the tiles of a buffered row (e.g. when a tile is removed during play)
+   */
+  setRow(y: number, tiles: TileCoordinate[]): void {
+    if (!this.hasRow(y)) {
+      throw new Error(`Row ${y} is not buffered (rows ${this.firstY} to ${this.endY - 1})`);
+    }
+
+    const row = this.rows[this.slot(y)];
+    this.tileCount += tiles.length - row.tiles.length;
+    row.tiles = tiles;
+  }
+
+  /**
+   * Whether a row index is currently buffered
+   */
+  hasRow(y: number): boolean {
+    return Number.isInteger(y) && y >= this.firstY && y < this.endY;
+  }
+
+  /**
+   * Evict every row before y
+   */
+  dropRowsBefore(y: number): void {
+    const limit = Math.min(y, this.endY);
+    while (this.firstY < limit) {
+      const slot = this.slot(this.firstY);
+      this.tileCount -= this.rows[slot].tiles.length;
+      this.rows[slot] = createEmptyRow(this.firstY);
+      this.firstY++;
+    }
+  }
+
+  /**
+   * Visit buffered rows from fromY up to (excluding) toY, in order
+   */
+  forEachRow(fromY: number, toY: number, callback: (tiles: readonly TileCoordinate[], y: number) => void): void {
+    const start = Math.max(Math.ceil(fromY), this.firstY);
+    const end = Math.min(toY, this.endY);
+    for (let y = start; y < end; y++) {
+      callback(this.rows[this.slot(y)].tiles, y);
+    }
+  }
+
+  /**
+   * Index of the oldest buffered row
+   */
+  getFirstRowY(): number {
+    return this.firstY;
+  }
+
+  /**
+   * Index the next pushed row will get
+   */
+  getEndRowY(): number {
+    return this.endY;
+  }
+
+  /**
+   * Number of buffered rows
+   */
+  getRowCount(): number {
+    return this.endY - this.firstY;
+  }
+
+  /**
+   * Total number of buffered tiles
+   */
+  getTileCount(): number {
+    return this.tileCount;
+  }
+
+  /**
+   * Maximum number of rows held at once
+   */
+  getCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Ring slot for a row index (handles negative indices)
+   */
+  private slot(y: number): number {
+    return ((y % this.capacity) + this.capacity) % this.capacity;
+  }
+}
@@ -0,0 +1,557 @@
+/**
+ * Track Generator - Produces the path tile sequence for endless mode
+ * Driven by a seeded PRNG so a seed value fully determines every generated row
+ * The route is a single snake that occasionally forks into two branches and merges back
+ * Bends and hills are purely visual: rows carry curve and elevation values that only the renderers use
+ * Now and then the route breaks off into a short gap the ship has to jump, landing on the lanes it took off from
+ * Every row is checked with TrackAnalyzer and repaired if any ship, in either physics mode, could not reach it at top speed
+ */
+
+import { SeededRandom } from './SeededRandom';
+import { WORLD_UNITS } from './worldUnits';
+import type { TileCoordinate } from './CollisionDetection';
+import type { TileKind } from './tileKinds';
+import { OBSTACLE_SPECS, obstacleCoversLane } from './obstacles';
+import type { Obstacle, ObstacleType } from './obstacles';
+import type { TrackRowData, TrackRowSource } from './TrackBuffer';
+import { TrackAnalyzer } from './TrackAnalyzer';
+import type { TrackAnalyzerConfig } from './TrackAnalyzer';
+
+/**
+ * How a special tile kind is scattered along the track
+ */
+export interface TileKindPlacement {
+  kind: TileKind;
+  chance: number; // Chance per row of starting a run of this kind
+  coverage: 'single' | 'row'; // One tile of the segment, or the whole segment
+  minRows: number; // Shortest run length
+  maxRows: number; // Longest run length
+}
+
+export interface TrackGeneratorConfig {
+  nbColumns: number;
+  straightStartRows: number; // Rows kept straight so the ship can start safely
+  maxRouteWidth: number; // Widest route segment in tiles
+  narrowRouteChance: number; // Chance of a width-2 segment instead of width-3
+  turnChance: number; // Chance of shifting the route one lane left (and, separately, right)
+  kindPlacements: TileKindPlacement[]; // Special tiles; an empty list produces only normal tiles
+  obstacleChance: number; // Chance per row of placing an obstacle
+  obstacleTypes: ObstacleType[]; // Obstacle types to pick from; an empty list disables obstacles
+  forkChance: number; // Chance per row of the route splitting into two branches
+  forkMinRows: number; // Shortest time the branches stay apart
+  forkMaxRows: number; // Longest time the branches stay apart
+  riskyCoinChance: number; // Chance per row of a coin on the narrow, risky branch
+  bendChance: number; // Chance per straight row of the road starting to bend
+  bendMinRows: number; // Shortest bend
+  bendMaxRows: number; // Longest bend
+  maxCurve: number; // Sharpest bend (at most WORLD_UNITS.MAX_CURVE); 0 keeps the road straight
+  hillChance: number; // Chance per level row of a hill or dip starting
+  hillMinRows: number; // Shortest hill, base to base
+  hillMaxRows: number; // Longest hill
+  maxElevation: number; // Tallest hill and deepest dip (at most WORLD_UNITS.MAX_ELEVATION); 0 keeps the road level
+  gapChance: number; // Chance per row of a gap that has to be jumped
+  gapMinRows: number; // Shortest gap
+  gapMaxRows: number; // Longest gap; must stay within a jump's reach at the slowest speed
+  fairness: Partial<TrackAnalyzerConfig> | null; // Reachability check settings; null turns row repair off
+}
+
+// Default configuration matching the original inline generator
+const DEFAULT_CONFIG: TrackGeneratorConfig = {
+  nbColumns: 7,
+  straightStartRows: 3,
+  maxRouteWidth: 3,
+  narrowRouteChance: 0.3, // 30% width 2, 70% width 3
+  turnChance: 0.2, // 20% left, 20% right, 60% straight
+  kindPlacements: [
+    { kind: 'boost', chance: 0.04, coverage: 'single', minRows: 1, maxRows: 1 },
+    { kind: 'slow', chance: 0.03, coverage: 'row', minRows: 2, maxRows: 3 },
+    { kind: 'ice', chance: 0.03, coverage: 'row', minRows: 3, maxRows: 6 },
+    { kind: 'crumbling', chance: 0.03, coverage: 'single', minRows: 2, maxRows: 4 },
+  ],
+  obstacleChance: 0.08,
+  obstacleTypes: ['block', 'barrier', 'pylon'],
+  forkChance: 0.04,
+  forkMinRows: 8,
+  forkMaxRows: 16,
+  riskyCoinChance: 0.6,
+  bendChance: 0.03,
+  bendMinRows: 15,
+  bendMaxRows: 40,
+  maxCurve: WORLD_UNITS.MAX_CURVE,
+  hillChance: 0.02,
+  hillMinRows: 12,
+  hillMaxRows: 30,
+  maxElevation: WORLD_UNITS.MAX_ELEVATION,
+  gapChance: 0.01,
+  gapMinRows: 1,
+  gapMaxRows: 2, // A jump covers about 3.7 rows at the base speed
+  fairness: {},
+};
+
+interface ActiveKindRun {
+  placement: TileKindPlacement;
+  rowsLeft: number;
+}
+
+interface LaneRange {
+  min: number;
+  max: number;
+}
+
+interface ActiveBend {
+  peak: number; // Curve at the middle of the bend; negative bends left
+  length: number;
+  row: number; // Rows of the bend already generated
+}
+
+interface ActiveHill {
+  peak: number; // Height at the top of the hill; negative for a dip
+  length: number;
+  row: number; // Rows of the hill already generated
+}
+
+interface ActiveFork {
+  left: LaneRange;
+  right: LaneRange;
+  riskySide: 'left' | 'right'; // Narrow branch carrying coins; the other one is wide and plain
+  rowsLeft: number; // Rows before the branches start converging
+}
+
+export class TrackGenerator implements TrackRowSource {
+  private config: TrackGeneratorConfig;
+  private random: SeededRandom;
+  private centerX: number;
+  private nextY: number;
+  private startY: number;
+  private rowsGenerated: number;
+  private activeRun: ActiveKindRun | null;
+  private freeLanes: number[]; // Lanes of the previous row that are not blocked by an obstacle
+  private activeFork: ActiveFork | null;
+  private activeBend: ActiveBend | null;
+  private activeHill: ActiveHill | null;
+  private gapRowsLeft: number; // Rows of the current gap still to generate
+  private isLandingRow: boolean; // Next row is the first after a gap: same lanes, nothing in the way
+  private analyzer: TrackAnalyzer | null;
+
+  constructor(seed: number = SeededRandom.createSeed(), config: Partial<TrackGeneratorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.random = new SeededRandom(seed);
+    this.startY = 1;
+    this.centerX = this.getStartCenter();
+    this.nextY = this.startY;
+    this.rowsGenerated = 0;
+    this.activeRun = null;
+    this.freeLanes = [];
+    this.activeFork = null;
+    this.activeBend = null;
+    this.activeHill = null;
+    this.gapRowsLeft = 0;
+    this.isLandingRow = false;
+    this.analyzer = this.config.fairness
+      ? new TrackAnalyzer({ ...this.config.fairness, nbColumns: this.config.nbColumns })
+      : null;
+    this.analyzer?.reset(this.centerX);
+  }
+
+  /**
+   * Restart generation from the first row, optionally with a new seed
+   */
+  reset(seed: number = this.random.getSeed(), startY: number = 1): void {
+    this.random.reset(seed);
+    this.startY = startY;
+    this.centerX = this.getStartCenter();
+    this.nextY = startY;
+    this.rowsGenerated = 0;
+    this.activeRun = null;
+    this.freeLanes = [];
+    this.activeFork = null;
+    this.activeBend = null;
+    this.activeHill = null;
+    this.gapRowsLeft = 0;
+    this.isLandingRow = false;
+    this.analyzer?.reset(this.centerX);
+  }
+
+  /**
+   * Row source entry point: restart from startY on the given seed
+   */
+  restart(startY: number, seed: number): void {
+    this.reset(seed, startY);
+  }
+
+  /**
+   * Generate the next row of tiles and obstacles and advance the generator
+   */
+  generateRow(): TrackRowData {
+    const y = this.nextY;
+    const obstacles: Obstacle[] = [];
+    let tiles: TileCoordinate[];
+    let isGap = false;
+
+    if (this.gapRowsLeft > 0) {
+      tiles = [];
+      isGap = true;
+      this.continueGap();
+    } else if (this.activeFork) {
+      tiles = this.generateForkRow(this.activeFork, y);
+    } else {
+      const routeWidth = this.random.chance(this.config.narrowRouteChance) ? 2 : 3;
+
+      // Keep the opening rows straight and plain so the ship can start safely, and the landing after a gap too
+      const isOpening = this.rowsGenerated < this.config.straightStartRows;
+      const isPlain = isOpening || this.isLandingRow;
+      this.isLandingRow = false;
+
+      if (!isPlain && this.config.gapChance > 0 && this.random.chance(this.config.gapChance)) {
+        tiles = [];
+        isGap = true;
+        this.gapRowsLeft = this.random.nextInt(this.config.gapMinRows, Math.max(this.config.gapMinRows, this.config.gapMaxRows));
+        this.continueGap();
+      } else {
+        if (!isPlain) {
+          this.centerX = this.clampCenter(this.centerX + this.pickMovement());
+        }
+
+        if (!isPlain && this.canFork() && this.random.chance(this.config.forkChance)) {
+          tiles = this.openFork(y);
+        } else {
+          tiles = this.generateRouteSegment(this.centerX, y, routeWidth);
+          if (!isPlain) {
+            this.placeTileKinds(tiles);
+            this.placeObstacle(tiles, y, obstacles);
+          }
+        }
+      }
+    }
+
+    let row: TrackRowData = { y, tiles, obstacles };
+    if (isGap) row.gap = true;
+    const curve = this.nextCurve();
+    if (curve !== 0) row.curve = curve;
+    const elevation = this.nextElevation();
+    if (elevation !== 0) row.elevation = elevation;
+    if (this.analyzer) {
+      row = this.analyzer.repairRow(row);
+      this.analyzer.append(row);
+    }
+
+    this.freeLanes = row.tiles
+      .map((tile) => tile.x)
+      .filter((lane) => !row.obstacles.some((obstacle) => obstacleCoversLane(obstacle, lane)));
+
+    this.nextY++;
+    this.rowsGenerated++;
+
+    return row;
+  }
+
+  /**
+   * Generate several consecutive rows
+   */
+  generateRows(count: number): TrackRowData[] {
+    const rows: TrackRowData[] = [];
+    for (let i = 0; i < count; i++) {
+      rows.push(this.generateRow());
+    }
+    return rows;
+  }
+
+  /**
+   * Endless mode never runs out of rows
+   */
+  isFinished(): boolean {
+    return false;
+  }
+
+  /**
+   * Get the seed driving this generator
+   */
+  getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  /**
+   * Get the Y index of the next row to be generated
+   */
+  getNextRowY(): number {
+    return this.nextY;
+  }
+
+  /**
+   * Get generator configuration
+   */
+  getConfig(): TrackGeneratorConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Count off one gap row; the row after the last one is a landing row
+   */
+  private continueGap(): void {
+    this.gapRowsLeft--;
+    if (this.gapRowsLeft === 0) {
+      this.isLandingRow = true;
+    }
+  }
+
+  /**
+   * Pick a lateral movement for the route center: -1, 0 or 1
+   */
+  private pickMovement(): number {
+    const moveChance = this.random.next();
+
+    if (moveChance < this.config.turnChance) {
+      return -1; // Move left
+    } else if (moveChance < this.config.turnChance * 2) {
+      return 1; // Move right
+    }
+    return 0; // Go straight for smoother, more natural paths
+  }
+
+  /**
+   * Whether the board around the route center is wide enough for two branches and a gap
+   */
+  private canFork(): boolean {
+    return this.centerX - 2 >= 0 && this.centerX + 2 < this.config.nbColumns;
+  }
+
+  /**
+   * Widen the route into a fork mouth and set up the two branches that follow it
+   */
+  private openFork(y: number): TileCoordinate[] {
+    const center = this.centerX;
+    const riskySide = this.random.chance(0.5) ? 'left' : 'right';
+
+    // The risky branch keeps only its outer lane
+    this.activeFork = {
+      left: riskySide === 'left' ? { min: center - 2, max: center - 2 } : { min: center - 2, max: center - 1 },
+      right: riskySide === 'right' ? { min: center + 2, max: center + 2 } : { min: center + 1, max: center + 2 },
+      riskySide,
+      rowsLeft: this.random.nextInt(this.config.forkMinRows, Math.max(this.config.forkMinRows, this.config.forkMaxRows)),
+    };
+
+    return this.generateLaneRange({ min: center - 2, max: center + 2 }, y);
+  }
+
+  /**
+   * Next row of an active fork: branches wander apart, then converge and merge into one route
+   */
+  private generateForkRow(fork: ActiveFork, y: number): TileCoordinate[] {
+    if (fork.rowsLeft > 0) {
+      fork.rowsLeft--;
+      this.shiftBranch(fork, 'left', this.pickMovement());
+      this.shiftBranch(fork, 'right', this.pickMovement());
+    } else if (fork.right.min - fork.left.max <= 2) {
+      // Branches are one lane apart: fill the gap and resume a single route from the middle
+      const merged = { min: fork.left.min, max: fork.right.max };
+      this.activeFork = null;
+      this.centerX = this.clampCenter(Math.round((merged.min + merged.max) / 2));
+      return this.generateLaneRange(merged, y);
+    } else {
+      // Converge one lane per row so either branch can reach the merge
+      this.shiftBranch(fork, 'left', 1);
+      this.shiftBranch(fork, 'right', -1);
+    }
+
+    const tiles: TileCoordinate[] = [];
+    (['left', 'right'] as const).forEach((side) => {
+      const branch = this.generateLaneRange(fork[side], y);
+      if (side === fork.riskySide && this.random.chance(this.config.riskyCoinChance)) {
+        branch.forEach((tile) => {
+          tile.kind = 'coin';
+        });
+      }
+      tiles.push(...branch);
+    });
+    return tiles;
+  }
+
+  /**
+   * Move one branch sideways if it stays on the board and at least one empty lane from the other branch
+   */
+  private shiftBranch(fork: ActiveFork, side: 'left' | 'right', movement: number): void {
+    if (movement === 0) return;
+
+    const branch = fork[side];
+    const min = branch.min + movement;
+    const max = branch.max + movement;
+    const gapOk = side === 'left' ? fork.right.min - max >= 2 : min - fork.left.max >= 2;
+
+    if (min >= 0 && max < this.config.nbColumns && gapOk) {
+      fork[side] = { min, max };
+    }
+  }
+
+  /**
+   * Tiles covering a contiguous range of lanes
+   */
+  private generateLaneRange(range: LaneRange, y: number): TileCoordinate[] {
+    const tiles: TileCoordinate[] = [];
+    for (let x = Math.max(0, range.min); x <= Math.min(this.config.nbColumns - 1, range.max); x++) {
+      tiles.push({ x, y });
+    }
+    return tiles;
+  }
+
+  /**
+   * Continue or start a run of special tiles and apply it to a freshly generated row
+   */
+  private placeTileKinds(tiles: TileCoordinate[]): void {
+    if (!this.activeRun) {
+      this.activeRun = this.pickKindRun();
+      if (!this.activeRun) return;
+    }
+
+    const { placement } = this.activeRun;
+    if (placement.coverage === 'row') {
+      tiles.forEach((tile) => {
+        tile.kind = placement.kind;
+      });
+    } else if (tiles.length > 0) {
+      tiles[this.random.nextInt(0, tiles.length - 1)].kind = placement.kind;
+    }
+
+    this.activeRun.rowsLeft--;
+    if (this.activeRun.rowsLeft <= 0) {
+      this.activeRun = null;
+    }
+  }
+
+  /**
+   * Maybe place one obstacle on a row while keeping it passable:
+   * at least one lane stays free, and a free lane is reachable (within one lane) from the previous row's free lanes
+   */
+  private placeObstacle(tiles: TileCoordinate[], y: number, obstacles: Obstacle[]): void {
+    const { obstacleTypes } = this.config;
+    if (obstacleTypes.length === 0 || tiles.length < 2) return;
+    if (!this.random.chance(this.config.obstacleChance)) return;
+
+    const type = obstacleTypes[this.random.nextInt(0, obstacleTypes.length - 1)];
+    const { span } = OBSTACLE_SPECS[type];
+    const lanes = tiles.map((tile) => tile.x);
+
+    // Candidate positions: every covered lane must be a tile
+    const candidates = lanes.filter((lane) => {
+      for (let offset = 0; offset < span; offset++) {
+        if (!lanes.includes(lane + offset)) return false;
+      }
+      return true;
+    });
+
+    const passable = candidates.filter((x) => {
+      const obstacle: Obstacle = { x, y, type };
+      const free = lanes.filter((lane) => !obstacleCoversLane(obstacle, lane));
+      if (free.length === 0) return false;
+      if (this.freeLanes.length === 0) return true;
+      return free.some((lane) => this.freeLanes.some((previous) => Math.abs(previous - lane) <= 1));
+    });
+
+    if (passable.length === 0) return;
+    obstacles.push({ x: passable[this.random.nextInt(0, passable.length - 1)], y, type });
+  }
+
+  /**
+   * Curve of the next row: bends ease in and out so the road never kinks
+   */
+  private nextCurve(): number {
+    if (!this.activeBend) {
+      const isOpening = this.rowsGenerated < this.config.straightStartRows;
+      if (isOpening || this.config.maxCurve === 0 || !this.random.chance(this.config.bendChance)) return 0;
+
+      const strength = 0.4 + this.random.next() * 0.6;
+      this.activeBend = {
+        peak: (this.random.chance(0.5) ? -1 : 1) * strength * Math.min(this.config.maxCurve, WORLD_UNITS.MAX_CURVE),
+        length: this.random.nextInt(this.config.bendMinRows, Math.max(this.config.bendMinRows, this.config.bendMaxRows)),
+        row: 0,
+      };
+    }
+
+    const bend = this.activeBend;
+    const curve = bend.peak * Math.sin(Math.PI * (bend.row + 0.5) / bend.length);
+    bend.row++;
+    if (bend.row >= bend.length) {
+      this.activeBend = null;
+    }
+    return curve;
+  }
+
+  /**
+   * Elevation of the next row: hills and dips rise and fall smoothly from level ground
+   */
+  private nextElevation(): number {
+    if (!this.activeHill) {
+      const isOpening = this.rowsGenerated < this.config.straightStartRows;
+      if (isOpening || this.config.maxElevation === 0 || !this.random.chance(this.config.hillChance)) return 0;
+
+      const strength = 0.4 + this.random.next() * 0.6;
+      this.activeHill = {
+        peak: (this.random.chance(0.5) ? -1 : 1) * strength * Math.min(this.config.maxElevation, WORLD_UNITS.MAX_ELEVATION),
+        length: this.random.nextInt(this.config.hillMinRows, Math.max(this.config.hillMinRows, this.config.hillMaxRows)),
+        row: 0,
+      };
+    }
+
+    // Near edges from the base (0) over the top and back down; the row after the hill is level again
+    const hill = this.activeHill;
+    const elevation = hill.peak * (1 - Math.cos((2 * Math.PI * hill.row) / hill.length)) / 2;
+    hill.row++;
+    if (hill.row >= hill.length) {
+      this.activeHill = null;
+    }
+    return elevation;
+  }
+
+  /**
+   * Roll once against the placement table; returns the run to start, if any
+   */
+  private pickKindRun(): ActiveKindRun | null {
+    const roll = this.random.next();
+    let cumulative = 0;
+
+    for (const placement of this.config.kindPlacements) {
+      cumulative += placement.chance;
+      if (roll < cumulative) {
+        return {
+          placement,
+          rowsLeft: this.random.nextInt(placement.minRows, Math.max(placement.minRows, placement.maxRows)),
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Keep the route center far enough from the edges for a full-width segment
+   */
+  private clampCenter(centerX: number): number {
+    const halfWidth = Math.floor(this.config.maxRouteWidth / 2);
+    return Math.max(halfWidth, Math.min(this.config.nbColumns - 1 - halfWidth, centerX));
+  }
+
+  /**
+   * Starting center lane, aligned with the ship
+   */
+  private getStartCenter(): number {
+    return Math.floor(this.config.nbColumns / 2);
+  }
+
+  /**
+   * Generate a multi-tile width route segment around a center lane
+   */
+  private generateRouteSegment(centerX: number, y: number, width: number): TileCoordinate[] {
+    const tiles: TileCoordinate[] = [];
+
+    const constrainedWidth = Math.min(this.config.maxRouteWidth, Math.max(1, width));
+    const halfWidth = Math.floor(constrainedWidth / 2);
+
+    for (let offset = -halfWidth; offset <= halfWidth; offset++) {
+      const tileX = centerX + offset;
+      // Ensure tile is within bounds
+      if (tileX >= 0 && tileX < this.config.nbColumns) {
+        tiles.push({ x: tileX, y });
+      }
+    }
+
+    return tiles;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Player settings, remembered in the browser between sessions
+ * Only read after mount (localStorage is not available during server rendering);
+ * missing or invalid values fall back to the defaults
+ */
+
+import { CAMERA_PRESETS } from './Camera';
+import type { CameraPresetName } from './Camera';
+import { DEFAULT_EFFECT_INTENSITY } from './CameraEffects';
+import type { CameraEffectIntensity } from './CameraEffects';
+import { DEFAULT_KEY_BINDINGS, INPUT_ACTIONS, cloneKeyBindings } from './InputManager';
+import type { KeyBindings } from './InputManager';
+import { PHYSICS_MODES } from './PlayerController';
+import type { PhysicsMode } from './PlayerController';
+import { SHIP_PROFILES } from './shipProfiles';
+import type { ShipProfileName } from './shipProfiles';
+
+// How touches steer: tap a screen half or swipe to change lanes, or tap the lane to drive to
+export type TouchControlMode = 'swipe' | 'lane';
+
+export const TOUCH_CONTROL_MODES: readonly TouchControlMode[] = ['swipe', 'lane'];
+
+// Longest input buffer window offered, in milliseconds
+const MAX_INPUT_BUFFER_WINDOW = 400;
+
+export interface GameSettings {
+  cameraPreset: CameraPresetName;
+  effectIntensity: CameraEffectIntensity; // Camera effects, each 0 (off) to 1 (full); reduced motion turns them all off
+  touchControls: TouchControlMode;
+  showPauseButton: boolean; // On-screen pause button on touch screens
+  keyBindings: KeyBindings;
+  inputBufferWindow: number; // Milliseconds an early steering press is kept before it is dropped (0 = no buffering)
+  doubleTapDash: boolean;
+  physicsMode: PhysicsMode;
+  shipProfile: ShipProfileName;
+}
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  cameraPreset: 'chase',
+  effectIntensity: DEFAULT_EFFECT_INTENSITY,
+  touchControls: 'swipe',
+  showPauseButton: true,
+  keyBindings: DEFAULT_KEY_BINDINGS,
+  inputBufferWindow: 200,
+  doubleTapDash: true,
+  physicsMode: 'lane',
+  shipProfile: 'balanced',
+};
+
+const STORAGE_KEY = 'perspective-racer:settings';
+
+/**
+ * Reads the saved settings, keeping only values this version understands
+ */
+export const loadGameSettings = (): GameSettings => {
+  const settings: GameSettings = {
+    ...DEFAULT_GAME_SETTINGS,
+    effectIntensity: { ...DEFAULT_GAME_SETTINGS.effectIntensity },
+    keyBindings: cloneKeyBindings(DEFAULT_GAME_SETTINGS.keyBindings),
+  };
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (!saved) return settings;
+
+    const parsed = JSON.parse(saved) as Partial<GameSettings>;
+    if (typeof parsed.cameraPreset === 'string' && Object.prototype.hasOwnProperty.call(CAMERA_PRESETS, parsed.cameraPreset)) {
+      settings.cameraPreset = parsed.cameraPreset;
+    }
+    if (parsed.effectIntensity && typeof parsed.effectIntensity === 'object') {
+      (Object.keys(settings.effectIntensity) as (keyof CameraEffectIntensity)[]).forEach((effect) => {
+        const value = parsed.effectIntensity?.[effect];
+        if (typeof value === 'number' && value >= 0 && value <= 1) {
+          settings.effectIntensity[effect] = value;
+        }
+      });
+    }
+    if (parsed.touchControls && TOUCH_CONTROL_MODES.includes(parsed.touchControls)) {
+      settings.touchControls = parsed.touchControls;
+    }
+    if (typeof parsed.showPauseButton === 'boolean') {
+      settings.showPauseButton = parsed.showPauseButton;
+    }
+    if (
+      typeof parsed.inputBufferWindow === 'number' &&
+      parsed.inputBufferWindow >= 0 &&
+      parsed.inputBufferWindow <= MAX_INPUT_BUFFER_WINDOW
+    ) {
+      settings.inputBufferWindow = parsed.inputBufferWindow;
+    }
+    if (typeof parsed.doubleTapDash === 'boolean') {
+      settings.doubleTapDash = parsed.doubleTapDash;
+    }
+    if (parsed.physicsMode && PHYSICS_MODES.includes(parsed.physicsMode)) {
+      settings.physicsMode = parsed.physicsMode;
+    }
+    if (typeof parsed.shipProfile === 'string' && Object.prototype.hasOwnProperty.call(SHIP_PROFILES, parsed.shipProfile)) {
+      settings.shipProfile = parsed.shipProfile;
+    }
+    if (parsed.keyBindings && typeof parsed.keyBindings === 'object') {
+      INPUT_ACTIONS.forEach((action) => {
+        const keys: unknown = parsed.keyBindings?.[action];
+        if (Array.isArray(keys) && keys.every((key) => typeof key === 'string')) {
+          settings.keyBindings[action] = keys;
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Error loading settings:', error);
+  }
+  return settings;
+};
+
+/**
+ * Stores the settings for the next session
+ */
+export const saveGameSettings = (settings: GameSettings): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving settings:', error);
+  }
+};
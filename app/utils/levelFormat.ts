@@ -0,0 +1,329 @@
+/**
+ * Level format - Versioned JSON description of a hand-authored course, with its validator and loader
+ * Row numbers in reported issues are 1-based, matching the order of the "rows" array
+ */
+
+import { WORLD_UNITS } from './worldUnits';
+import { TILE_KINDS } from './tileKinds';
+import type { TileKind } from './tileKinds';
+import { OBSTACLE_SPECS, OBSTACLE_TYPES, obstacleCoversLane } from './obstacles';
+import type { Obstacle, ObstacleType } from './obstacles';
+import type { TileCoordinate } from './CollisionDetection';
+import type { TrackRowData } from './TrackBuffer';
+import { TrackAnalyzer } from './TrackAnalyzer';
+import type { TrackAnalyzerConfig } from './TrackAnalyzer';
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+export interface LevelMeta {
+  name: string;
+  author: string;
+  parTime: number; // Target completion time in seconds
+  description?: string;
+}
+
+/**
+ * One row as written in the file
+ */
+export interface LevelRowData {
+  lanes: number[]; // Lanes holding a tile
+  kinds?: Record<string, TileKind>; // Lane (as a string key) to tile kind; unlisted lanes are normal
+  obstacles?: { lane: number; type: ObstacleType }[]; // Leftmost lane covered by each obstacle
+  curve?: number; // Road bend, from -MAX_CURVE (left) to MAX_CURVE (right); straight when omitted
+  elevation?: number; // Road height at the row's near edge, from -MAX_ELEVATION to MAX_ELEVATION; level when omitted
+}
+
+/**
+ * Level file, version 1
+ */
+export interface LevelFile {
+  version: typeof LEVEL_FORMAT_VERSION;
+  meta: LevelMeta;
+  nbColumns: number;
+  rows: LevelRowData[];
+}
+
+/**
+ * Loaded level, ready to feed the simulation (row y values start at 0)
+ */
+export interface Level {
+  meta: LevelMeta;
+  nbColumns: number;
+  rows: TrackRowData[];
+}
+
+export type LevelIssueCategory = 'schema' | 'range' | 'reachability';
+
+export interface LevelIssue {
+  category: LevelIssueCategory;
+  row: number | null; // 1-based row number, or null for file-level issues
+  path: string; // Location in the file, e.g. "rows[4].lanes[2]"
+  message: string;
+}
+
+export interface LevelValidationResult {
+  errors: LevelIssue[];
+  warnings: LevelIssue[];
+}
+
+export type LevelLoadResult =
+  | { ok: true; level: Level; warnings: LevelIssue[] }
+  | { ok: false; errors: LevelIssue[]; warnings: LevelIssue[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isLane = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isInteger(value);
+};
+
+/**
+ * Format an issue for display, e.g. "Row 12: lane 7 is outside lanes 0-6"
+ */
+export const formatLevelIssue = (issue: LevelIssue): string => {
+  return issue.row !== null ? `Row ${issue.row}: ${issue.message}` : `${issue.path}: ${issue.message}`;
+};
+
+/**
+ * Check the file header: version, metadata and column count
+ */
+const validateHeader = (data: Record<string, unknown>, result: LevelValidationResult): void => {
+  const fileError = (path: string, message: string) => result.errors.push({ category: 'schema', row: null, path, message });
+
+  if (data.version !== LEVEL_FORMAT_VERSION) {
+    fileError('version', `unsupported level version ${JSON.stringify(data.version)} (expected ${LEVEL_FORMAT_VERSION})`);
+  }
+
+  const meta = data.meta;
+  if (!isRecord(meta)) {
+    fileError('meta', 'missing metadata object');
+  } else {
+    if (typeof meta.name !== 'string' || meta.name.trim() === '') fileError('meta.name', 'must be a non-empty string');
+    if (typeof meta.author !== 'string') fileError('meta.author', 'must be a string');
+    if (typeof meta.parTime !== 'number' || !(meta.parTime > 0)) fileError('meta.parTime', 'must be a positive number of seconds');
+    if (meta.description !== undefined && typeof meta.description !== 'string') {
+      fileError('meta.description', 'must be a string when present');
+    }
+  }
+
+  const { nbColumns } = data;
+  if (!isLane(nbColumns) || nbColumns < 1 || nbColumns > WORLD_UNITS.NB_COLUMNS) {
+    fileError('nbColumns', `must be an integer from 1 to ${WORLD_UNITS.NB_COLUMNS}`);
+  }
+
+  if (!Array.isArray(data.rows) || data.rows.length === 0) {
+    fileError('rows', 'must be a non-empty array');
+  }
+};
+
+/**
+ * Check one row's schema and lane ranges
+ */
+const validateRow = (
+  row: unknown,
+  index: number,
+  nbColumns: number,
+  result: LevelValidationResult
+): void => {
+  const rowNumber = index + 1;
+  const path = `rows[${index}]`;
+  const error = (field: string, message: string, category: LevelIssueCategory = 'schema') => {
+    result.errors.push({ category, row: rowNumber, path: `${path}${field}`, message });
+  };
+  const warning = (field: string, message: string) => {
+    result.warnings.push({ category: 'schema', row: rowNumber, path: `${path}${field}`, message });
+  };
+  const laneRange = `lanes 0-${nbColumns - 1}`;
+
+  if (!isRecord(row)) {
+    error('', 'must be an object with a "lanes" array');
+    return;
+  }
+  if (!Array.isArray(row.lanes)) {
+    error('.lanes', 'must be an array of lane numbers');
+    return;
+  }
+
+  const lanes: number[] = [];
+  row.lanes.forEach((lane, laneIndex) => {
+    if (!isLane(lane)) {
+      error(`.lanes[${laneIndex}]`, `${JSON.stringify(lane)} is not an integer lane`);
+    } else if (lane < 0 || lane >= nbColumns) {
+      error(`.lanes[${laneIndex}]`, `lane ${lane} is outside ${laneRange}`, 'range');
+    } else if (lanes.includes(lane)) {
+      warning(`.lanes[${laneIndex}]`, `lane ${lane} is listed twice`);
+    } else {
+      lanes.push(lane);
+    }
+  });
+
+  if (row.kinds !== undefined) {
+    if (!isRecord(row.kinds)) {
+      error('.kinds', 'must map lane numbers to tile kinds');
+    } else {
+      Object.entries(row.kinds).forEach(([key, kind]) => {
+        if (!TILE_KINDS.includes(kind as TileKind)) {
+          error(`.kinds.${key}`, `unknown tile kind ${JSON.stringify(kind)} (expected one of ${TILE_KINDS.join(', ')})`);
+        } else if (!lanes.includes(Number(key))) {
+          error(`.kinds.${key}`, `lane ${key} has a kind but no tile`);
+        }
+      });
+    }
+  }
+
+  if (row.obstacles !== undefined) {
+    if (!Array.isArray(row.obstacles)) {
+      error('.obstacles', 'must be an array');
+    } else {
+      row.obstacles.forEach((entry, obstacleIndex) => {
+        const field = `.obstacles[${obstacleIndex}]`;
+        if (!isRecord(entry) || !isLane(entry.lane)) {
+          error(field, 'must be an object with an integer "lane"');
+        } else if (!OBSTACLE_TYPES.includes(entry.type as ObstacleType)) {
+          error(`${field}.type`, `unknown obstacle type ${JSON.stringify(entry.type)} (expected one of ${OBSTACLE_TYPES.join(', ')})`);
+        } else {
+          const obstacle: Obstacle = { x: entry.lane, y: index, type: entry.type as ObstacleType };
+          const lastLane = obstacle.x + OBSTACLE_SPECS[obstacle.type].span - 1;
+          if (obstacle.x < 0 || lastLane >= nbColumns) {
+            error(field, `${obstacle.type} at lane ${obstacle.x} reaches outside ${laneRange}`, 'range');
+          } else if (!lanes.some((lane) => obstacleCoversLane(obstacle, lane))) {
+            warning(field, `${obstacle.type} at lane ${obstacle.x} does not stand on a tile`);
+          }
+        }
+      });
+    }
+  }
+
+  if (row.curve !== undefined) {
+    const maxCurve = WORLD_UNITS.MAX_CURVE;
+    if (typeof row.curve !== 'number' || !Number.isFinite(row.curve)) {
+      error('.curve', 'must be a number');
+    } else if (Math.abs(row.curve) > maxCurve) {
+      error('.curve', `curve ${row.curve} is outside ${-maxCurve} to ${maxCurve}`, 'range');
+    }
+  }
+
+  if (row.elevation !== undefined) {
+    const maxElevation = WORLD_UNITS.MAX_ELEVATION;
+    if (typeof row.elevation !== 'number' || !Number.isFinite(row.elevation)) {
+      error('.elevation', 'must be a number');
+    } else if (Math.abs(row.elevation) > maxElevation) {
+      error('.elevation', `elevation ${row.elevation} is outside ${-maxElevation} to ${maxElevation}`, 'range');
+    }
+  }
+};
+
+/**
+ * Validate a parsed level file
+ * Reports schema errors, out-of-range lanes and rows the ship cannot reach; reachability is checked with
+ * TrackAnalyzer (at top speed unless analyzer options say otherwise) once the file is otherwise valid
+ */
+export const validateLevel = (data: unknown, analyzerConfig: Partial<TrackAnalyzerConfig> = {}): LevelValidationResult => {
+  const result: LevelValidationResult = { errors: [], warnings: [] };
+
+  if (!isRecord(data)) {
+    result.errors.push({ category: 'schema', row: null, path: '(root)', message: 'level must be a JSON object' });
+    return result;
+  }
+
+  validateHeader(data, result);
+  if (!Array.isArray(data.rows)) return result;
+
+  const nbColumns = isLane(data.nbColumns) && data.nbColumns >= 1 ? data.nbColumns : WORLD_UNITS.NB_COLUMNS;
+  data.rows.forEach((row, index) => validateRow(row, index, nbColumns, result));
+  if (result.errors.length > 0) return result;
+
+  // The ship starts on the center lane
+  const analyzer = new TrackAnalyzer({ ...analyzerConfig, nbColumns });
+  const { speed } = analyzer.getConfig();
+  analyzer.analyze(toLevel(data as unknown as LevelFile).rows).issues.forEach((issue) => {
+    result.errors.push({
+      category: 'reachability',
+      row: issue.y + 1,
+      path: `rows[${issue.y}]`,
+      message: issue.reason === 'no-free-lane'
+        ? 'row has no free lane'
+        : `unreachable at speed ${speed}: cannot steer there in time from lanes ${issue.reachableBefore.join(', ')}`,
+    });
+  });
+
+  return result;
+};
+
+/**
+ * Blank course: a straight three-lane road down the middle
+ */
+export const createEmptyLevelFile = (rowCount: number = 40, nbColumns: number = WORLD_UNITS.NB_COLUMNS): LevelFile => {
+  const center = Math.floor(nbColumns / 2);
+  const lanes = [center - 1, center, center + 1].filter((lane) => lane >= 0 && lane < nbColumns);
+
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    meta: { name: 'Untitled course', author: '', parTime: 30 },
+    nbColumns,
+    rows: Array.from({ length: rowCount }, () => ({ lanes: [...lanes] })),
+  };
+};
+
+/**
+ * Serialize a level file with one row per line, the layout used by the built-in levels
+ */
+export const serializeLevel = (file: LevelFile): string => {
+  const rows = file.rows.map((row, index) => `    ${JSON.stringify(row)}${index < file.rows.length - 1 ? ',' : ''}`);
+  return [
+    '{',
+    `  "version": ${file.version},`,
+    `  "meta": ${JSON.stringify(file.meta)},`,
+    `  "nbColumns": ${file.nbColumns},`,
+    '  "rows": [',
+    ...rows,
+    '  ]',
+    '}',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Convert a validated file into runtime rows
+ */
+const toLevel = (file: LevelFile): Level => {
+  const rows = file.rows.map((row, y): TrackRowData => {
+    const tiles = Array.from(new Set(row.lanes))
+      .sort((a, b) => a - b)
+      .map((x): TileCoordinate => {
+        const kind = row.kinds?.[String(x)];
+        return kind && kind !== 'normal' ? { x, y, kind } : { x, y };
+      });
+    const obstacles = (row.obstacles ?? []).map(({ lane, type }): Obstacle => ({ x: lane, y, type }));
+    const trackRow: TrackRowData = { y, tiles, obstacles };
+    if (row.curve) trackRow.curve = row.curve;
+    if (row.elevation) trackRow.elevation = row.elevation;
+    return trackRow;
+  });
+
+  return { meta: { ...file.meta }, nbColumns: file.nbColumns, rows };
+};
+
+/**
+ * Parse (if given a string), validate and load a level
+ */
+export const loadLevel = (source: string | unknown): LevelLoadResult => {
+  let data: unknown = source;
+
+  if (typeof source === 'string') {
+    try {
+      data = JSON.parse(source);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, errors: [{ category: 'schema', row: null, path: '(root)', message: `invalid JSON: ${message}` }], warnings: [] };
+    }
+  }
+
+  const { errors, warnings } = validateLevel(data);
+  if (errors.length > 0) {
+    return { ok: false, errors, warnings };
+  }
+
+  return { ok: true, level: toLevel(data as LevelFile), warnings };
+};
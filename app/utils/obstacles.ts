@@ -0,0 +1,41 @@
+/**
+ * Obstacles - Data table for the obstacle entities placed on track rows
+ * Shared by the generator (placement), the collision detector (hit extents) and the renderer
+ */
+
+export type ObstacleType = 'block' | 'barrier' | 'pylon';
+
+export interface Obstacle {
+  x: number; // Leftmost lane covered
+  y: number; // Row index
+  type: ObstacleType;
+}
+
+export interface ObstacleSpec {
+  span: number; // Lanes covered, starting at x
+  hitWidth: number; // Collision width in lanes, centered on the covered lanes
+  height: number; // Visual height relative to lane width
+  severity: 'minor' | 'major' | 'fatal';
+}
+
+export const OBSTACLE_SPECS: Readonly<Record<ObstacleType, ObstacleSpec>> = {
+  block: { span: 1, hitWidth: 0.8, height: 0.7, severity: 'major' },
+  barrier: { span: 2, hitWidth: 1.8, height: 0.4, severity: 'major' },
+  pylon: { span: 1, hitWidth: 0.4, height: 0.6, severity: 'minor' },
+};
+
+export const OBSTACLE_TYPES: readonly ObstacleType[] = ['block', 'barrier', 'pylon'];
+
+/**
+ * Lane at the center of an obstacle (fractional for even spans)
+ */
+export const getObstacleCenter = (obstacle: Obstacle): number => {
+  return obstacle.x + (OBSTACLE_SPECS[obstacle.type].span - 1) / 2;
+};
+
+/**
+ * Whether an obstacle blocks the given lane
+ */
+export const obstacleCoversLane = (obstacle: Obstacle, lane: number): boolean => {
+  return lane >= obstacle.x && lane < obstacle.x + OBSTACLE_SPECS[obstacle.type].span;
+};
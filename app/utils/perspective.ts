@@ -1,219 +1,252 @@
 /**
- * Perspective transformation utilities for 3D-like effects in 2D canvas
- * Implements mathematically correct perspective projection
+ * Road projection helpers: the road's shape ahead of the ship, projected through the shared Camera
+ * Road bends and hills shape the world before the camera projects it: bends as a lateral offset
+ * that accumulates with depth, hills as road height, so crests can hide the rows behind them
  */
 
-export interface PerspectiveConfig {
-  viewerDistance: number;  // Distance from viewer to projection plane
-  vanishingPointX: number; // X coordinate of vanishing point
-  vanishingPointY: number; // Y coordinate of vanishing point
-  fieldOfView: number;     // Field of view in radians
+import type { Camera, ProjectedPoint } from './Camera';
+
+/**
+ * Lateral shape of the road ahead of the ship, relative to the ship (no offset and no turn where it is)
+ */
+export interface RoadCurve {
+  edgeOffsets: number[]; // Offset in lanes of each row edge, starting with the near edge of the ship's row
+  rowProgress: number; // How far the ship is into its row (0-1)
+  shipCurve: number; // Curve of the row under the ship
 }
 
-export interface Point3D {
-  x: number;
-  y: number;
-  z: number; // Distance from viewer (positive = away from viewer)
+export const STRAIGHT_ROAD: RoadCurve = { edgeOffsets: [0], rowProgress: 0, shipCurve: 0 };
+
+/**
+ * Height of the road ahead of the ship, relative to the ship (the camera rides at the ship's height)
+ */
+export interface RoadElevation {
+  edgeHeights: number[]; // Height in rows of each row's near edge, starting with the ship's row
+  rowProgress: number; // How far the ship is into its row (0-1)
 }
 
-export interface Point2D {
-  x: number;
-  y: number;
-  scale: number; // Scaling factor for size adjustments
+export const FLAT_ROAD: RoadElevation = { edgeHeights: [0], rowProgress: 0 };
+
+/**
+ * Point on the road surface, in the coordinates projectRoadPoint takes
+ */
+export interface RoadPoint {
+  lane: number; // Across the track, in lanes from its left edge (lane n spans n to n + 1)
+  rowsAhead: number; // Rows ahead of the ship; the track row is currentYLoop + floor(rowsAhead + rowProgress)
 }
 
-// Performance cache for expensive calculations
-const scaleCache = new Map<string, number>();
-const pointCache = new Map<string, [number, number]>();
-let cacheSize = 0;
-const MAX_CACHE_SIZE = 1000;
-
-// Clear cache when it gets too large
-const clearCacheIfNeeded = () => {
-  if (cacheSize > MAX_CACHE_SIZE) {
-    scaleCache.clear();
-    pointCache.clear();
-    cacheSize = 0;
+// Depth samples per row when searching for the road under a screen point
+const UNPROJECT_SAMPLES_PER_ROW = 4;
+
+/**
+ * Accumulate per-row curves into lateral offsets, like a classic pseudo-3D racer:
+ * each row's curve turns the road, and the road's direction moves every row after it sideways
+ * curves[0] is the row under the ship, followed by the rows ahead
+ */
+export const createRoadCurve = (curves: readonly number[], rowProgress: number): RoadCurve => {
+  return updateRoadCurve({ edgeOffsets: [], rowProgress: 0, shipCurve: 0 }, curves, rowProgress);
+};
+
+/**
+ * Same as createRoadCurve, but rewrites an existing road in place so a per-frame update allocates nothing
+ */
+export const updateRoadCurve = (road: RoadCurve, curves: readonly number[], rowProgress: number): RoadCurve => {
+  const progress = Math.max(0, Math.min(1, rowProgress));
+  const shipCurve = curves.length > 0 ? curves[0] : 0;
+  const edgeOffsets = road.edgeOffsets;
+
+  // The ship's row near edge is behind the ship, where the road is already turning into it
+  edgeOffsets[0] = (shipCurve * progress * progress) / 2;
+  let offset = 0;
+  let direction = 0;
+  for (let index = 0; index < curves.length; index++) {
+    const curve = curves[index];
+    const length = index === 0 ? 1 - progress : 1;
+    offset += direction * length + (curve * length * length) / 2;
+    direction += curve * length;
+    edgeOffsets[index + 1] = offset;
+  }
+  if (edgeOffsets.length !== curves.length + 1) {
+    edgeOffsets.length = curves.length + 1;
   }
+
+  road.rowProgress = progress;
+  road.shipCurve = shipCurve;
+  return road;
 };
 
 /**
- * Mathematically correct perspective scaling based on distance
- * Uses the formula: scale = viewerDistance / (viewerDistance + z)
- * This prevents division by zero and provides proper hyperbolic scaling
+ * Value at a distance ahead of the ship, interpolated between per-edge values that start at the ship's row near edge
+ * Beyond the last edge the value is held
  */
-export const calculatePerspectiveScale = (z: number, viewerDistance: number = 400): number => {
-  const cacheKey = `${z}_${viewerDistance}`;
-  
-  if (scaleCache.has(cacheKey)) {
-    return scaleCache.get(cacheKey)!;
+const interpolateRowEdges = (edgeValues: readonly number[], rowProgress: number, rowsAhead: number): number => {
+  const position = Math.max(0, rowsAhead + rowProgress);
+  const index = Math.floor(position);
+  if (index >= edgeValues.length - 1) {
+    return edgeValues[edgeValues.length - 1];
   }
 
-  // Ensure z is non-negative and add small epsilon to prevent division issues
-  const safeZ = z >= 0 ? z : 0;
-  const epsilon = 0.001;
-  
-  // Perspective formula: scale = f / (f + z) where f is focal length
-  const scale = viewerDistance / (viewerDistance + safeZ + epsilon);
-  
-  // Clamp scale to reasonable bounds
-  const clampedScale = Math.max(0.001, Math.min(10, scale));
-  
-  // Cache the result
-  scaleCache.set(cacheKey, clampedScale);
-  cacheSize++;
-  clearCacheIfNeeded();
-  
-  return clampedScale;
+  const fraction = position - index;
+  return edgeValues[index] + (edgeValues[index + 1] - edgeValues[index]) * fraction;
 };
 
 /**
- * Legacy function for backward compatibility - improved version
- * Now uses proper perspective mathematics instead of cubic scaling
+ * Per-edge values interpolated at each of a list of distances ahead of the ship, written into an array
+ * The same as interpolateRowEdges for every sample, without returning a number per sample
  */
-export const transformPerspective = (
-  x: number,
-  y: number,
-  perspectivePointX: number,
-  perspectivePointY: number,
-  height: number
-): [number, number] => {
-  const cacheKey = `${x}_${y}_${perspectivePointX}_${perspectivePointY}_${height}`;
-  
-  if (pointCache.has(cacheKey)) {
-    return pointCache.get(cacheKey)!;
+const sampleRowEdges = (
+  edgeValues: readonly number[],
+  rowProgress: number,
+  rowsAhead: Float64Array,
+  count: number,
+  out: Float64Array
+): void => {
+  const lastIndex = edgeValues.length - 1;
+  for (let sample = 0; sample < count; sample++) {
+    const position = Math.max(0, rowsAhead[sample] + rowProgress);
+    const index = Math.floor(position);
+    if (index >= lastIndex) {
+      out[sample] = edgeValues[lastIndex];
+    } else {
+      out[sample] = edgeValues[index] + (edgeValues[index + 1] - edgeValues[index]) * (position - index);
+    }
   }
+};
 
-  // Convert y position to depth (z) - objects lower on screen are closer
-  const normalizedY = Math.max(0, Math.min(1, y / height));
-  const z = (1 - normalizedY) * height; // Invert so bottom of screen = z=0
-  
-  // Calculate perspective scale using proper mathematics
-  const scale = calculatePerspectiveScale(z, height * 0.8);
-  
-  // Apply perspective transformation
-  const diffX = x - perspectivePointX;
-  const offsetX = diffX * scale;
-  const trX = perspectivePointX + offsetX;
-  const trY = perspectivePointY + scale * (height - perspectivePointY);
-  
-  const result: [number, number] = [trX, trY];
-  
-  // Cache the result
-  pointCache.set(cacheKey, result);
-  cacheSize++;
-  clearCacheIfNeeded();
-  
-  return result;
+/**
+ * Lateral road offset in lanes at a distance ahead of the ship, in rows
+ * Beyond the last known row the road is taken to continue at its last offset
+ */
+export const getRoadCurveOffset = (road: RoadCurve, rowsAhead: number): number => {
+  return interpolateRowEdges(road.edgeOffsets, road.rowProgress, rowsAhead);
 };
 
 /**
- * Transform a 3D point to 2D screen coordinates with perspective
- * Implements proper perspective projection mathematics
- */
-export const project3DTo2D = (
-  point3D: Point3D,
-  config: PerspectiveConfig
-): Point2D => {
-  const scale = calculatePerspectiveScale(point3D.z, config.viewerDistance);
-  
-  // Perspective projection formulas
-  const projectedX = config.vanishingPointX + (point3D.x * scale);
-  const projectedY = config.vanishingPointY + (point3D.y * scale);
-  
-  return {
-    x: projectedX,
-    y: projectedY,
-    scale: scale
-  };
+ * getRoadCurveOffset at the first count distances of rowsAhead, written into out
+ */
+export const sampleRoadCurveOffsets = (road: RoadCurve, rowsAhead: Float64Array, count: number, out: Float64Array): void => {
+  sampleRowEdges(road.edgeOffsets, road.rowProgress, rowsAhead, count, out);
 };
 
 /**
- * Calculate the Y position for a track segment based on distance
- * Provides consistent depth perception
- */
-export const calculateSegmentY = (
-  segmentIndex: number,
-  totalSegments: number,
-  startY: number,
-  endY: number,
-  viewerDistance: number = 400
-): number => {
-  const progress = segmentIndex / (totalSegments - 1);
-  
-  // Use perspective-correct interpolation
-  const z = progress * viewerDistance;
-  const scale = calculatePerspectiveScale(z, viewerDistance);
-  
-  // Interpolate Y position with perspective correction
-  return startY + (endY - startY) * (1 - scale);
+ * Per-row heights relative to the camera, which sits at the ship's height between its row and the next
+ * elevations[0] is the row under the ship, followed by the rows ahead
+ */
+export const createRoadElevation = (elevations: readonly number[], rowProgress: number): RoadElevation => {
+  return updateRoadElevation({ edgeHeights: [], rowProgress: 0 }, elevations, rowProgress);
 };
 
 /**
- * Generate track lane positions with proper perspective
- */
-export const generateTrackLane = (
-  segmentIndex: number,
-  totalSegments: number,
-  baseWidth: number,
-  laneOffset: number,
-  vanishingPointX: number,
-  viewerDistance: number = 400
-): { leftX: number; rightX: number; scale: number } => {
-  const progress = segmentIndex / (totalSegments - 1);
-  const z = progress * viewerDistance * 2; // Multiply by 2 for more dramatic perspective
-  
-  const scale = calculatePerspectiveScale(z, viewerDistance);
-  const scaledWidth = baseWidth * scale;
-  const scaledOffset = laneOffset * scale;
-  
-  return {
-    leftX: vanishingPointX - scaledWidth / 2 + scaledOffset,
-    rightX: vanishingPointX + scaledWidth / 2 + scaledOffset,
-    scale: scale
-  };
+ * Same as createRoadElevation, but rewrites an existing elevation in place so a per-frame update allocates nothing
+ */
+export const updateRoadElevation = (
+  elevation: RoadElevation,
+  elevations: readonly number[],
+  rowProgress: number
+): RoadElevation => {
+  const progress = Math.max(0, Math.min(1, rowProgress));
+  const edgeHeights = elevation.edgeHeights;
+
+  if (elevations.length === 0) {
+    edgeHeights[0] = 0;
+    edgeHeights.length = 1;
+  } else {
+    const shipRow = elevations[0];
+    const cameraHeight = shipRow + ((elevations.length > 1 ? elevations[1] : shipRow) - shipRow) * progress;
+    for (let index = 0; index < elevations.length; index++) {
+      edgeHeights[index] = elevations[index] - cameraHeight;
+    }
+    if (edgeHeights.length !== elevations.length) {
+      edgeHeights.length = elevations.length;
+    }
+  }
+
+  elevation.rowProgress = progress;
+  return elevation;
 };
 
 /**
- * Apply perspective to object size (for sprites, ships, etc.)
+ * Road height in rows at a distance ahead of the ship, relative to the camera
  */
-export const scaleObjectSize = (originalSize: number, z: number, viewerDistance: number = 400): number => {
-  const scale = calculatePerspectiveScale(z, viewerDistance);
-  return Math.max(1, originalSize * scale); // Ensure minimum size of 1 pixel
+export const getRoadHeight = (elevation: RoadElevation, rowsAhead: number): number => {
+  return interpolateRowEdges(elevation.edgeHeights, elevation.rowProgress, rowsAhead);
 };
 
 /**
- * Check if a point is within the viewing frustum
+ * getRoadHeight at the first count distances of rowsAhead, written into out
  */
-export const isInViewingFrustum = (
-  point3D: Point3D,
-  config: PerspectiveConfig
-): boolean => {
-  const projected = project3DTo2D(point3D, config);
-  const fovScale = Math.tan(config.fieldOfView / 2);
-  const maxX = config.vanishingPointX + (config.viewerDistance * fovScale);
-  const minX = config.vanishingPointX - (config.viewerDistance * fovScale);
-  
-  return projected.x >= minX && projected.x <= maxX && point3D.z >= 0;
+export const sampleRoadHeights = (elevation: RoadElevation, rowsAhead: Float64Array, count: number, out: Float64Array): void => {
+  sampleRowEdges(elevation.edgeHeights, elevation.rowProgress, rowsAhead, count, out);
 };
 
 /**
- * Create a standard perspective configuration for racing games
+ * Project a point on the road through the camera: shifted sideways by the bend at its depth and lifted by the road height
  */
-export const createRacingPerspectiveConfig = (screenWidth: number, screenHeight: number): PerspectiveConfig => {
-  return {
-    viewerDistance: screenHeight * 1.5, // Increased for more dramatic perspective
-    vanishingPointX: screenWidth / 2,
-    vanishingPointY: screenHeight * 0.2, // Lower vanishing point for better track visibility
-    fieldOfView: Math.PI / 2 // Wider field of view
-  };
-}
+export const projectRoadPoint = (
+  camera: Camera,
+  lane: number,
+  rowsAhead: number,
+  road: RoadCurve = STRAIGHT_ROAD,
+  elevation: RoadElevation = FLAT_ROAD,
+  heightAboveRoad: number = 0
+): ProjectedPoint | null => {
+  return camera.project(
+    lane + getRoadCurveOffset(road, rowsAhead),
+    rowsAhead,
+    getRoadHeight(elevation, rowsAhead) + heightAboveRoad
+  );
+};
+
+/**
+ * Find the road under a screen point: the inverse of projectRoadPoint
+ * Walks the road outwards from the camera until it rises to the point's height on screen, so the road in front of
+ * a crest is found rather than the road hidden behind it; returns null for points above the road (sky or beyond the far plane)
+ */
+export const unprojectRoadPoint = (
+  camera: Camera,
+  x: number,
+  y: number,
+  road: RoadCurve = STRAIGHT_ROAD,
+  elevation: RoadElevation = FLAT_ROAD
+): RoadPoint | null => {
+  const step = 1 / UNPROJECT_SAMPLES_PER_ROW;
+  const drawDistance = camera.getDrawDistance();
+  let previous: { rowsAhead: number; y: number } | null = null;
+
+  // Screen Y does not depend on the lane, so the track's left edge stands in for the whole row
+  for (let rowsAhead = camera.getPosition().row; rowsAhead <= drawDistance; rowsAhead += step) {
+    const point = projectRoadPoint(camera, 0, rowsAhead, road, elevation);
+    if (!point) {
+      if (previous) break; // Past the far plane
+      continue; // Still inside the near plane
+    }
+
+    if (point.y <= y) {
+      // Interpolate between the last sample below the point and this one; a point below the nearest visible road keeps that row
+      const fraction = previous ? (previous.y - y) / (previous.y - point.y) : 1;
+      const hitRowsAhead = previous ? previous.rowsAhead + step * fraction : rowsAhead;
+
+      // Across a row, screen X is linear in the lane
+      const left = projectRoadPoint(camera, 0, hitRowsAhead, road, elevation);
+      const right = projectRoadPoint(camera, 1, hitRowsAhead, road, elevation);
+      if (!left || !right || Math.abs(right.x - left.x) < 1e-6) return null;
+
+      return { lane: (x - left.x) / (right.x - left.x), rowsAhead: hitRowsAhead };
+    }
+    previous = { rowsAhead, y: point.y };
+  }
+
+  return null;
+};
 
 /**
- * Clear all caches - call when perspective configuration changes
+ * Screen Y above which each row is visible, from the row under the ship outwards
+ * A row is hidden below the highest edge of any row in front of it, which is how a crest hides the road behind it
  */
-export const clearPerspectiveCache = (): void => {
-  scaleCache.clear();
-  pointCache.clear();
-  cacheSize = 0;
+export const getRowOcclusionLines = (edgeScreenYs: readonly number[]): number[] => {
+  let highest = Infinity;
+  return edgeScreenYs.map((edgeY) => {
+    highest = Math.min(highest, edgeY);
+    return highest;
+  });
 };
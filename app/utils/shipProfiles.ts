@@ -0,0 +1,57 @@
+/**
+ * Ship profiles - Steering feel per ship
+ * Each profile tunes both physics modes: how quickly the ship glides between lanes, and how it accelerates,
+ * grips and drifts with momentum
+ */
+
+import { PHYSICS_MODES } from './PlayerController';
+import type { PlayerControllerConfig } from './PlayerController';
+
+export type ShipProfileName = 'balanced' | 'agile' | 'heavy';
+
+export interface ShipProfile {
+  label: string;
+  color: string; // Body colour of the ship
+  handling: Partial<PlayerControllerConfig>;
+}
+
+// Ship profiles, in the order the settings list them
+export const SHIP_PROFILES: Record<ShipProfileName, ShipProfile> = {
+  balanced: {
+    // The controller's own defaults
+    label: 'Balanced',
+    color: '#3b82f6',
+    handling: {},
+  },
+  agile: {
+    // Light and grippy: snaps between lanes and stops where it is pointed
+    label: 'Agile',
+    color: '#10b981',
+    handling: {
+      smoothingFactor: 0.22,
+      maxMoveDistance: 0.4,
+      lateralAcceleration: 34,
+      lateralGrip: 11,
+      maxLateralSpeed: 8,
+    },
+  },
+  heavy: {
+    // Slow to turn and slow to stop: it carries its sideways speed and drifts through lane changes
+    label: 'Heavy',
+    color: '#f97316',
+    handling: {
+      smoothingFactor: 0.1,
+      maxMoveDistance: 0.22,
+      lateralAcceleration: 15,
+      lateralGrip: 3.5,
+      maxLateralSpeed: 6,
+    },
+  },
+};
+
+export const SHIP_PROFILE_NAMES = Object.keys(SHIP_PROFILES) as ShipProfileName[];
+
+// Every ship in every physics mode, for checks that must suit whichever one the player picks
+export const ALL_SHIP_HANDLINGS: Partial<PlayerControllerConfig>[] = SHIP_PROFILE_NAMES.flatMap((name) =>
+  PHYSICS_MODES.map((physicsMode) => ({ ...SHIP_PROFILES[name].handling, physicsMode }))
+);
@@ -0,0 +1,32 @@
+/**
+ * Tile kinds - Data table describing the gameplay effect of each path tile kind
+ * The simulation applies these effects; Path.tsx maps each kind to its own look
+ */
+
+export type TileKind = 'normal' | 'boost' | 'slow' | 'ice' | 'crumbling' | 'coin';
+
+export interface TileKindEffect {
+  speedBoost?: { multiplier: number; duration: number }; // Applied once on entry; duration in ms
+  speedPenalty?: { multiplier: number; duration: number }; // Applied once on entry; duration in ms
+  steeringMultiplier?: number; // Steering responsiveness while on the tile (1 = normal)
+  crumbleDelay?: number; // Seconds between first contact and the tile disappearing
+  scoreBonus?: number; // Points collected once on entry; the tile then turns normal
+}
+
+export const TILE_KIND_EFFECTS: Readonly<Record<TileKind, TileKindEffect>> = {
+  normal: {},
+  boost: { speedBoost: { multiplier: 1.5, duration: 1500 } },
+  slow: { speedPenalty: { multiplier: 0.6, duration: 1200 } },
+  ice: { steeringMultiplier: 0.35 },
+  crumbling: { crumbleDelay: 0.35 },
+  coin: { scoreBonus: 50 },
+};
+
+export const TILE_KINDS: readonly TileKind[] = ['normal', 'boost', 'slow', 'ice', 'crumbling', 'coin'];
+
+/**
+ * Effect table entry for a tile, treating a missing kind as normal
+ */
+export const getTileKindEffect = (kind: TileKind | undefined): TileKindEffect => {
+  return TILE_KIND_EFFECTS[kind ?? 'normal'];
+};
@@ -0,0 +1,35 @@
+/**
+ * World units shared by the simulation and the renderers
+ * Gameplay is measured in lanes and rows; only the projection step converts to pixels,
+ * so difficulty is identical at any canvas size
+ */
+
+export const WORLD_UNITS = {
+  NB_COLUMNS: 7, // Lanes across the track
+  TILE_SPACING: 0.07, // Approximate on-screen row spacing at the ship as ratio of canvas height (pixel-based effects only)
+  LANE_WIDTH: 2.85, // World width of a lane, in rows; the camera projects lanes and rows with this ratio
+  SPEED_UNITS_PER_ROW: 42, // Speed units (as produced by SpeedProgressionSystem) per row per second
+  MAX_CURVE: 0.06, // Sharpest road bend: change of lateral direction in lanes per row, per row (visual only)
+  MAX_ELEVATION: 4, // Highest hill and deepest dip, in rows of height (visual only)
+} as const;
+
+/**
+ * Convert a speed value into rows scrolled per second
+ */
+export const speedToRowsPerSecond = (speed: number): number => {
+  return speed / WORLD_UNITS.SPEED_UNITS_PER_ROW;
+};
+
+/**
+ * Pixels between two consecutive rows at the bottom of the screen
+ */
+export const getRowSpacingPixels = (canvasHeight: number): number => {
+  return WORLD_UNITS.TILE_SPACING * canvasHeight;
+};
+
+/**
+ * Project a distance in rows to a screen distance in pixels
+ */
+export const rowsToPixels = (rows: number, canvasHeight: number): number => {
+  return rows * getRowSpacingPixels(canvasHeight);
+};
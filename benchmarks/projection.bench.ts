@@ -0,0 +1,291 @@
+/**
+ * Projection benchmark
+ * Compares one frame of road projection work (track lines, path tiles and ship) done the way the renderers did it
+ * before the projection table - every point through the string-keyed scale and point caches of perspective.ts -
+ * with the per-frame RoadProjectionTable they share now, including the road shape update the game loop does each frame
+ *
+ * Run with: npm run bench
+ * Allocation is measured as heap growth with garbage collection held off, so it needs --expose-gc and a young
+ * generation large enough to hold a whole run (the npm script passes both)
+ */
+
+import { Camera } from '../app/utils/Camera';
+import { createRoadCurve, createRoadElevation, updateRoadCurve, updateRoadElevation } from '../app/utils/perspective';
+import { RoadProjectionTable } from '../app/utils/RoadProjectionTable';
+import { WORLD_UNITS } from '../app/utils/worldUnits';
+
+// Workload matching what the renderers draw each frame
+const NB_COLUMNS = WORLD_UNITS.NB_COLUMNS;
+const CANVAS_WIDTH = 1000;
+const CANVAS_HEIGHT = 600;
+const ROAD_LINES = NB_COLUMNS + 1 + 2 + 1; // Grid lines, track surface edges and the center line
+const ROWS_BEHIND = 3;
+const LOOKAHEAD_ROWS = 36;
+const WARMUP_FRAMES = 1000;
+const MEASURED_FRAMES = 2000;
+
+// Layout the renderers used with the cached projection (Track, Path and Ship before the table)
+const GRID_LINE_SPACING = 40;
+const CENTER_LINE_SPACING = 80;
+const TILE_SPACING = 0.08;
+const TILE_CULLING_MARGIN = 300;
+const SHIP_BOTTOM_OFFSET = 15;
+const SHIP_HEIGHT = 25;
+
+// Results land here rather than in a local sum, so the work is not optimized away and no number is boxed
+const sink = new Float64Array(1);
+
+interface BenchmarkResult {
+  name: string;
+  microsecondsPerFrame: number;
+  bytesPerFrame: number;
+}
+
+/**
+ * Projection with the string-keyed caches perspective.ts had before the projection table, reproduced as it was
+ */
+const scaleCache = new Map<string, number>();
+const pointCache = new Map<string, [number, number]>();
+let cacheSize = 0;
+const MAX_CACHE_SIZE = 1000;
+
+const clearCacheIfNeeded = () => {
+  if (cacheSize > MAX_CACHE_SIZE) {
+    scaleCache.clear();
+    pointCache.clear();
+    cacheSize = 0;
+  }
+};
+
+const cachedPerspectiveScale = (z: number, viewerDistance: number = 400): number => {
+  const cacheKey = `${z}_${viewerDistance}`;
+
+  if (scaleCache.has(cacheKey)) {
+    return scaleCache.get(cacheKey)!;
+  }
+
+  const safeZ = z >= 0 ? z : 0;
+  const epsilon = 0.001;
+  const scale = viewerDistance / (viewerDistance + safeZ + epsilon);
+  const clampedScale = Math.max(0.001, Math.min(10, scale));
+
+  scaleCache.set(cacheKey, clampedScale);
+  cacheSize++;
+  clearCacheIfNeeded();
+
+  return clampedScale;
+};
+
+const cachedTransformPerspective = (
+  x: number,
+  y: number,
+  perspectivePointX: number,
+  perspectivePointY: number,
+  height: number
+): [number, number] => {
+  const cacheKey = `${x}_${y}_${perspectivePointX}_${perspectivePointY}_${height}`;
+
+  if (pointCache.has(cacheKey)) {
+    return pointCache.get(cacheKey)!;
+  }
+
+  const normalizedY = Math.max(0, Math.min(1, y / height));
+  const z = (1 - normalizedY) * height;
+  const scale = cachedPerspectiveScale(z, height * 0.8);
+
+  const diffX = x - perspectivePointX;
+  const offsetX = diffX * scale;
+  const trX = perspectivePointX + offsetX;
+  const trY = perspectivePointY + scale * (height - perspectivePointY);
+
+  const result: [number, number] = [trX, trY];
+
+  pointCache.set(cacheKey, result);
+  cacheSize++;
+  clearCacheIfNeeded();
+
+  return result;
+};
+
+/**
+ * One frame through the caches: grid lines, center line and roadside (Track), every visible tile (Path) and the ship
+ * The road scrolls by a fraction of a tile every frame, so most keys are new and the caches keep filling and clearing
+ */
+const projectWithCaches = (rowProgress: number): void => {
+  const width = CANVAS_WIDTH;
+  const height = CANVAS_HEIGHT;
+  const perspectivePointX = width / 2;
+  const perspectivePointY = height * 0.2;
+  const spacingX = width / NB_COLUMNS;
+  const tileHeight = TILE_SPACING * height;
+  const offsetY = rowProgress * tileHeight;
+
+  const linesToDraw = Math.ceil(height / GRID_LINE_SPACING) + 2;
+  for (let i = 0; i < linesToDraw; i++) {
+    const lineY = height - i * GRID_LINE_SPACING;
+    if (lineY < perspectivePointY) continue;
+    const [x1, y1] = cachedTransformPerspective(0, lineY, perspectivePointX, perspectivePointY, height);
+    const [x2, y2] = cachedTransformPerspective(width, lineY, perspectivePointX, perspectivePointY, height);
+    sink[0] += x1 + y1 + x2 + y2;
+  }
+
+  const segmentsToDraw = Math.ceil(height / CENTER_LINE_SPACING) + 2;
+  for (let i = 0; i < segmentsToDraw; i++) {
+    const lineY = height - i * CENTER_LINE_SPACING;
+    if (lineY < perspectivePointY) continue;
+    const [x1, y1] = cachedTransformPerspective(width * 0.4, lineY, perspectivePointX, perspectivePointY, height);
+    const [x2, y2] = cachedTransformPerspective(width * 0.6, lineY, perspectivePointX, perspectivePointY, height);
+    sink[0] += x1 + y1 + x2 + y2;
+  }
+
+  for (const edgeX of [0, width * 0.1, width * 0.9, width]) {
+    const [nearX, nearY] = cachedTransformPerspective(edgeX, height, perspectivePointX, perspectivePointY, height);
+    const [farX, farY] = cachedTransformPerspective(edgeX, perspectivePointY, perspectivePointX, perspectivePointY, height);
+    sink[0] += nearX + nearY + farX + farY;
+  }
+
+  for (let row = -ROWS_BEHIND; row < LOOKAHEAD_ROWS; row++) {
+    const lineY = height - row * tileHeight + offsetY;
+    if (lineY > height + TILE_CULLING_MARGIN || lineY < -TILE_CULLING_MARGIN) continue;
+
+    const z = Math.max(0, height - lineY);
+    for (let lane = 0; lane < NB_COLUMNS; lane++) {
+      sink[0] += cachedPerspectiveScale(z, height * 0.8);
+      const [x1, y1] = cachedTransformPerspective(lane * spacingX, lineY, perspectivePointX, perspectivePointY, height);
+      const [x2] = cachedTransformPerspective((lane + 1) * spacingX, lineY, perspectivePointX, perspectivePointY, height);
+      const [x3, y3] = cachedTransformPerspective(
+        (lane + 1) * spacingX,
+        lineY - tileHeight,
+        perspectivePointX,
+        perspectivePointY,
+        height
+      );
+      const [x4] = cachedTransformPerspective(lane * spacingX, lineY - tileHeight, perspectivePointX, perspectivePointY, height);
+      sink[0] += x1 + y1 + x2 + x3 + y3 + x4;
+    }
+  }
+
+  const shipBottomY = height - SHIP_BOTTOM_OFFSET;
+  const shipZ = SHIP_BOTTOM_OFFSET;
+  const shipScale = cachedPerspectiveScale(shipZ, height * 0.8);
+  const shipTopY = shipBottomY - Math.max(1, SHIP_HEIGHT * cachedPerspectiveScale(shipZ, height * 0.8));
+  const shipCenterX = (NB_COLUMNS / 2 + 0.5) * spacingX;
+  const shipWidth = spacingX * 0.6 * shipScale;
+  const [leftX] = cachedTransformPerspective(shipCenterX - shipWidth / 2, shipBottomY, perspectivePointX, perspectivePointY, height);
+  const [rightX] = cachedTransformPerspective(shipCenterX + shipWidth / 2, shipBottomY, perspectivePointX, perspectivePointY, height);
+  const [, topY] = cachedTransformPerspective(shipCenterX, shipTopY, perspectivePointX, perspectivePointY, height);
+  sink[0] += leftX + rightX + topY;
+};
+
+/**
+ * Per-row road shape as the game loop hands it over each frame, rewritten in place
+ */
+const curves = new Array<number>(LOOKAHEAD_ROWS).fill(0);
+const elevations = new Array<number>(LOOKAHEAD_ROWS).fill(0);
+const road = createRoadCurve(curves, 0);
+const elevation = createRoadElevation(elevations, 0);
+
+/**
+ * Road shape update the game loop does each frame, rewriting the per-row values and the road in place
+ */
+const updateRoadShape = (frame: number, rowProgress: number): void => {
+  const firstRow = Math.floor(frame / 60);
+  for (let i = 0; i < LOOKAHEAD_ROWS; i++) {
+    curves[i] = Math.sin((firstRow + i) / 5) * WORLD_UNITS.MAX_CURVE * 0.5;
+    elevations[i] = Math.sin((firstRow + i) / 7) * WORLD_UNITS.MAX_ELEVATION * 0.5;
+  }
+  updateRoadCurve(road, curves, rowProgress);
+  updateRoadElevation(elevation, elevations, rowProgress);
+};
+
+/**
+ * Road lines as Track draws them from the table: one point per sample
+ */
+const drawLinesFromTable = (table: RoadProjectionTable): void => {
+  for (let line = 0; line < ROAD_LINES; line++) {
+    const lane = (line * NB_COLUMNS) / (ROAD_LINES - 1);
+    for (let index = 0; index < table.getSampleCount(); index++) {
+      if (table.isSampleVisible(index)) sink[0] += table.getSampleX(index, lane) + table.getSampleY(index);
+    }
+  }
+};
+
+/**
+ * Tiles as Path draws them from the table: four corners per lane of every visible row
+ */
+const drawTilesFromTable = (table: RoadProjectionTable, rowProgress: number): void => {
+  for (let row = 0; row <= Math.ceil(table.getDrawDistance() + rowProgress); row++) {
+    const rowsAhead = row - rowProgress;
+    if (!table.isVisible(rowsAhead) || !table.isVisible(rowsAhead + 1)) continue;
+
+    for (let lane = 0; lane < NB_COLUMNS; lane++) {
+      sink[0] += table.getX(lane, rowsAhead) + table.getX(lane + 1, rowsAhead);
+      sink[0] += table.getX(lane + 1, rowsAhead + 1) + table.getX(lane, rowsAhead + 1);
+    }
+  }
+};
+
+/**
+ * The same frame through the shared table: update the road shape, build the table once, then each renderer looks points up
+ */
+const projectWithTable = (table: RoadProjectionTable, camera: Camera, frame: number, rowProgress: number): void => {
+  updateRoadShape(frame, rowProgress);
+  table.build(camera, rowProgress, road, elevation);
+  drawLinesFromTable(table);
+  drawTilesFromTable(table, rowProgress);
+  sink[0] += table.getY(0.95) + table.getX(NB_COLUMNS / 2 - 0.3, 0.35) + table.getX(NB_COLUMNS / 2 + 0.3, 0.35);
+};
+
+/**
+ * Run a frame function over a scrolling road and measure time and heap growth per frame
+ */
+const runBenchmark = (name: string, frame: (frame: number, rowProgress: number) => void): BenchmarkResult => {
+  for (let i = 0; i < WARMUP_FRAMES; i++) {
+    frame(i, (i % 60) / 60);
+  }
+
+  const collectGarbage = (globalThis as { gc?: () => void }).gc;
+  collectGarbage?.();
+  const heapBefore = process.memoryUsage().heapUsed;
+  const start = process.hrtime.bigint();
+
+  for (let i = WARMUP_FRAMES; i < WARMUP_FRAMES + MEASURED_FRAMES; i++) {
+    frame(i, (i % 60) / 60);
+  }
+
+  const elapsedNs = Number(process.hrtime.bigint() - start);
+  const heapAfter = process.memoryUsage().heapUsed;
+
+  return {
+    name,
+    microsecondsPerFrame: elapsedNs / 1000 / MEASURED_FRAMES,
+    bytesPerFrame: Math.max(0, heapAfter - heapBefore) / MEASURED_FRAMES,
+  };
+};
+
+const camera = new Camera({ width: CANVAS_WIDTH, height: CANVAS_HEIGHT });
+camera.lookAt(NB_COLUMNS / 2);
+const table = new RoadProjectionTable({ rowsBehind: ROWS_BEHIND });
+const results = [
+  runBenchmark('string-keyed caches', (_, rowProgress) => projectWithCaches(rowProgress)),
+  runBenchmark('projection table', (frame, rowProgress) => projectWithTable(table, camera, frame, rowProgress)),
+];
+
+if (!(globalThis as { gc?: () => void }).gc) {
+  console.warn('Run with --expose-gc for stable allocation figures (npm run bench does)');
+}
+
+console.table(
+  results.map(({ name, microsecondsPerFrame, bytesPerFrame }) => ({
+    approach: name,
+    'µs / frame': microsecondsPerFrame.toFixed(1),
+    'bytes / frame': Math.round(bytesPerFrame),
+  }))
+);
+
+const [caches, projectionTable] = results;
+console.log(
+  `Projection table: ${(caches.microsecondsPerFrame / projectionTable.microsecondsPerFrame).toFixed(1)}x faster, ` +
+    `${Math.round(caches.bytesPerFrame - projectionTable.bytesPerFrame)} fewer bytes allocated per frame ` +
+    `(checksum ${sink[0].toFixed(0)})`
+);
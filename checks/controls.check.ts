@@ -0,0 +1,84 @@
+/**
+ * Controls check
+ * Drives a PlayerController headlessly at the simulation rate and checks how steering presses turn into lane changes:
+ * two taps change two lanes, each as soon as the repeat delay allows, and a double-tap dash goes further than that
+ * Also checks that a tap is kept by InputManager until a simulation step has seen it
+ *
+ * Run with: npm run check
+ */
+
+import assert from 'node:assert/strict';
+import { InputManager } from '../app/utils/InputManager';
+import { PlayerController } from '../app/utils/PlayerController';
+import type { PlayerControllerConfig } from '../app/utils/PlayerController';
+
+const STEP = 1 / 120;
+const NB_LANES = 12;
+const START_LANE = 3;
+const DOUBLE_TAP_GAP = 50; // Milliseconds between the presses of a quick double-tap
+const SLOW_TAP_GAP = 400; // Milliseconds between two separate taps, outside the dash window
+const RUN_TIME = 1000;
+
+interface LaneChange {
+  time: number; // Simulation clock in milliseconds
+  target: number;
+}
+
+/**
+ * Tap right at the given times and record every change of the target lane
+ */
+const tapRight = (tapTimes: readonly number[], config: Partial<PlayerControllerConfig>): LaneChange[] => {
+  const controller = new PlayerController(config);
+  controller.initialize(START_LANE);
+
+  const changes: LaneChange[] = [];
+  let target = START_LANE;
+  const pending = [...tapTimes];
+  for (let time = 0; time < RUN_TIME; time += STEP * 1000) {
+    if (pending.length > 0 && time >= pending[0]) {
+      pending.shift();
+      controller.setActionState({ steerRight: true });
+      controller.setActionState({ steerRight: false });
+    }
+
+    const state = controller.update(STEP, NB_LANES);
+    if (state.targetPosition !== target) {
+      target = state.targetPosition;
+      changes.push({ time: time + STEP * 1000, target });
+    }
+  }
+  return changes;
+};
+
+const finalLane = (changes: readonly LaneChange[]): number => {
+  return changes.length > 0 ? changes[changes.length - 1].target : START_LANE;
+};
+
+// Without dashing, a quick double-tap is two lane changes, the second one repeat delay after the first
+const keyRepeatDelay = 150;
+const noDash = tapRight([0, DOUBLE_TAP_GAP], { dashEnabled: false, keyRepeatDelay });
+assert.equal(noDash.length, 2, 'a double-tap without dash changes lanes twice');
+assert.equal(finalLane(noDash), START_LANE + 2);
+assert.ok(
+  Math.abs(noDash[1].time - noDash[0].time - keyRepeatDelay) <= STEP * 1000,
+  'the second lane change waits only for the repeat delay'
+);
+
+// With the default tuning, a double-tap dash ends further across than two slow taps
+const slowTaps = tapRight([0, SLOW_TAP_GAP], {});
+const doubleTap = tapRight([0, DOUBLE_TAP_GAP], {});
+assert.equal(finalLane(slowTaps), START_LANE + 2, 'two slow taps change two lanes');
+assert.ok(
+  finalLane(doubleTap) > finalLane(slowTaps),
+  `a double-tap dash (lane ${finalLane(doubleTap)}) goes further than two taps (lane ${finalLane(slowTaps)})`
+);
+
+// A tap pressed and released between steps survives frames that run no step, and is gone once a step consumes it
+const inputManager = new InputManager();
+inputManager.trigger('steerRight');
+assert.equal(inputManager.getActionState().steerRight, true);
+assert.equal(inputManager.getActionState().steerRight, true, 'a frame without a step keeps the tap');
+inputManager.consumePresses();
+assert.equal(inputManager.getActionState().steerRight, false, 'a step consumes the tap');
+
+console.log('Controls check passed');